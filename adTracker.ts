@@ -1,73 +1,198 @@
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
-
-interface AdUnlock {
-  sessionId: string;
-  url: string;
-  unlockedAt: Date;
-  expiresAt: Date;
-}
-
-export class AdTracker {
-  private static readonly UNLOCK_DURATION = 3600000; // 1 hour
-  private static readonly MIN_WATCH_TIME = 5000; // 5 seconds minimum watch time
-
-  static async isUnlocked(sessionId: string, url: string): Promise<boolean> {
-    const unlock = await prisma.adUnlock.findFirst({
-      where: {
-        sessionId,
-        url,
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
-    });
-    return !!unlock;
-  }
-
-  static async trackAdWatch(sessionId: string, url: string, watchTime: number): Promise<boolean> {
-    if (watchTime < this.MIN_WATCH_TIME) {
-      return false;
-    }
-
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + this.UNLOCK_DURATION);
-
-    await prisma.adUnlock.upsert({
-      where: {
-        sessionId_url: {
-          sessionId,
-          url,
-        },
-      },
-      update: {
-        unlockedAt: now,
-        expiresAt,
-      },
-      create: {
-        sessionId,
-        url,
-        unlockedAt: now,
-        expiresAt,
-      },
-    });
-
-    return true;
-  }
-
-  static async getRemainingTime(sessionId: string, url: string): Promise<number> {
-    const unlock = await prisma.adUnlock.findFirst({
-      where: {
-        sessionId,
-        url,
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
-    });
-
-    if (!unlock) return 0;
-    return unlock.expiresAt.getTime() - new Date().getTime();
-  }
-} 
\ No newline at end of file
+import { PrismaClient } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Privacy } from './privacy';
+import { DownloadLimiter } from './downloadLimiter';
+import { redis } from './redisClient';
+
+const prisma = new PrismaClient();
+
+// Without a configured secret, tokens only hold for the life of this process
+const AD_UNLOCK_SECRET = process.env.AD_UNLOCK_SECRET || randomBytes(32).toString('hex');
+
+export interface AdSession {
+  token: string; // handed back to /api/ads/complete once the ad has played
+  minWatchTime: number; // ms
+  expiresAt: string;
+}
+
+export interface AdUnlockGrant {
+  unlockToken: string; // sent with each fast download of the part
+  expiresAt: string;
+}
+
+// Session and part URL are hashed so a token does not reveal what it unlocks
+interface TokenPayload {
+  kind: 'start' | 'unlock';
+  nonce: string;
+  session: string;
+  target: string;
+  exp: number;
+  private?: boolean; // the unlock lives only in the token, with no database row
+}
+
+export class AdUnlockError extends Error {
+  constructor(message: string, public status: number = 403, public retryAfter?: number) {
+    super(message);
+    this.name = 'AdUnlockError';
+  }
+}
+
+export class AdTracker {
+  private static readonly UNLOCK_DURATION = 3600000; // 1 hour
+  private static readonly MIN_WATCH_TIME = 5000; // 5 seconds minimum watch time
+  private static readonly AD_SESSION_TTL = 600; // seconds to finish watching
+
+  // Unlocks are per part; a file that is not split is part 1
+  static target(url: string, part?: unknown): string {
+    const partNumber = Number(part);
+    return `${url}#part${Number.isInteger(partNumber) && partNumber > 0 ? partNumber : 1}`;
+  }
+
+  // The watch starts when the server says so, not when the client claims it did
+  static async startAd(sessionId: string, url: string, part?: unknown): Promise<AdSession> {
+    const nonce = uuidv4();
+    const now = Date.now();
+    const exp = now + this.AD_SESSION_TTL * 1000;
+
+    await redis.setex(`ad_session:${nonce}`, this.AD_SESSION_TTL, String(now));
+
+    return {
+      token: this.sign({
+        kind: 'start',
+        nonce,
+        session: Privacy.hash(sessionId),
+        target: Privacy.hash(this.target(url, part)),
+        exp,
+      }),
+      minWatchTime: this.MIN_WATCH_TIME,
+      expiresAt: new Date(exp).toISOString(),
+    };
+  }
+
+  // Private unlocks are not stored: the signed token and the single-use ad
+  // session in Redis, which names no URL, are all there is
+  static async completeAd(sessionId: string, url: string, part: unknown, token: unknown, isPrivate = true): Promise<AdUnlockGrant> {
+    const payload = this.verify(token, 'start', sessionId, url, part);
+    if (!payload) {
+      throw new AdUnlockError('Invalid ad session');
+    }
+
+    const key = `ad_session:${payload.nonce}`;
+    const startedAt = await redis.get(key);
+    if (!startedAt) {
+      throw new AdUnlockError('Ad session expired or already used', 410);
+    }
+
+    const elapsed = Date.now() - Number(startedAt);
+    if (elapsed < this.MIN_WATCH_TIME) {
+      throw new AdUnlockError('The ad has not finished playing yet', 425, Math.ceil((this.MIN_WATCH_TIME - elapsed) / 1000));
+    }
+
+    // Only one completion can consume the nonce, however many race for it
+    if (await redis.del(key) !== 1) {
+      throw new AdUnlockError('Ad session expired or already used', 410);
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.UNLOCK_DURATION);
+    const unlockNonce = uuidv4();
+
+    if (!isPrivate) {
+      await prisma.adUnlock.deleteMany({
+        where: {
+          sessionId,
+          expiresAt: {
+            lt: now,
+          },
+        },
+      });
+      await prisma.adUnlock.create({
+        data: {
+          id: unlockNonce,
+          sessionId,
+          target: payload.target,
+          unlockedAt: now,
+          expiresAt,
+        },
+      });
+    }
+
+    // A verified watch also gives the session a fresh download quota
+    await DownloadLimiter.resetDownloads(sessionId);
+
+    return {
+      unlockToken: this.sign({
+        kind: 'unlock',
+        nonce: unlockNonce,
+        session: payload.session,
+        target: payload.target,
+        exp: expiresAt.getTime(),
+        ...(isPrivate && { private: true }),
+      }),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  // Unlock tokens stay valid until they expire, so resumed and retried
+  // requests for the same part keep their speed; the row lets one be revoked,
+  // while a private unlock has none and holds until it expires
+  static async isUnlocked(sessionId: unknown, url: string, part: unknown, token: unknown): Promise<boolean> {
+    return (await this.getRemainingTime(sessionId, url, part, token)) > 0;
+  }
+
+  static async getRemainingTime(sessionId: unknown, url: string, part: unknown, token: unknown): Promise<number> {
+    if (typeof sessionId !== 'string' || !sessionId) return 0;
+
+    const payload = this.verify(token, 'unlock', sessionId, url, part);
+    if (!payload) return 0;
+    if (payload.private) return payload.exp - Date.now();
+
+    const unlock = await prisma.adUnlock.findFirst({
+      where: {
+        id: payload.nonce,
+        sessionId,
+        target: payload.target,
+        expiresAt: {
+          gt: new Date(),
+        },
+      },
+    });
+
+    if (!unlock) return 0;
+    return unlock.expiresAt.getTime() - new Date().getTime();
+  }
+
+  private static sign(payload: TokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  private static verify(token: unknown, kind: TokenPayload['kind'], sessionId: string, url: string, part: unknown): TokenPayload | null {
+    if (typeof token !== 'string') return null;
+
+    const [body, signature] = token.split('.');
+    if (!body || !signature) return null;
+
+    const expected = Buffer.from(this.signature(body));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    } catch {
+      return null;
+    }
+
+    const valid = payload.kind === kind &&
+      payload.exp > Date.now() &&
+      payload.session === Privacy.hash(sessionId) &&
+      payload.target === Privacy.hash(this.target(url, part));
+    return valid ? payload : null;
+  }
+
+  private static signature(body: string): string {
+    return createHmac('sha256', AD_UNLOCK_SECRET).update(body).digest('base64url');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { DownloadLimiter, QUOTA_TIERS } from '@/app/utils/downloadLimiter';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { DownloadError } from '@/app/utils/downloadError';
+
+// Admin actions need `Authorization: Bearer <ADMIN_TOKEN>`; without the
+// variable set the endpoint is disabled
+function isAdmin(request: Request): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  const header = request.headers.get('authorization') || '';
+  if (!token || !header.startsWith('Bearer ')) return false;
+
+  const given = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ?sessionId=...&ip=... shows where a session stands
+export async function GET(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    if (!isAdmin(request)) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 401, headers: rateLimitHeaders });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const sessionId = params.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const status = await DownloadLimiter.checkDownloadLimit(sessionId, params.get('ip') || 'unknown');
+    return NextResponse.json({ ...status, tiers: QUOTA_TIERS }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Quota lookup error:', error);
+    const downloadError = new DownloadError('internal_error', 'Failed to load quota');
+    return NextResponse.json(downloadError.toJSON(), { status: downloadError.status, headers: rateLimitHeaders });
+  }
+}
+
+// Body: { action: 'reset', sessionId, ip? } or { action: 'set_tier', sessionId, tier }
+export async function POST(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    if (!isAdmin(request)) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 401, headers: rateLimitHeaders });
+    }
+
+    const { action, sessionId, ip, tier } = await request.json();
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    if (action === 'reset') {
+      await DownloadLimiter.resetDownloads(sessionId, typeof ip === 'string' ? ip : undefined);
+    } else if (action === 'set_tier') {
+      if (typeof tier !== 'string' || !QUOTA_TIERS[tier]) {
+        return NextResponse.json({ error: 'Unknown tier', tiers: Object.keys(QUOTA_TIERS) }, { status: 400, headers: rateLimitHeaders });
+      }
+      await DownloadLimiter.setTier(sessionId, tier);
+    } else {
+      return NextResponse.json({ error: 'Unknown action' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const status = await DownloadLimiter.checkDownloadLimit(sessionId, typeof ip === 'string' ? ip : 'unknown');
+    return NextResponse.json(status, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Quota update error:', error);
+    const downloadError = new DownloadError('internal_error', 'Failed to update quota');
+    return NextResponse.json(downloadError.toJSON(), { status: downloadError.status, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { AdTracker, AdUnlockError } from '@/app/utils/adTracker';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { Privacy } from '@/app/utils/privacy';
+
+// Body: { sessionId, url, part?, token, mode? } with the token from POST /api/ads
+export async function POST(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const { sessionId, url, part, token, mode } = await request.json();
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'Invalid URL' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const unlock = await AdTracker.completeAd(sessionId, url, part, token, Privacy.isPrivate(mode));
+    return NextResponse.json(unlock, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...Privacy.headers(mode),
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AdUnlockError) {
+      return NextResponse.json({ error: error.message, retryAfter: error.retryAfter }, {
+        status: error.status,
+        headers: {
+          ...(error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : {}),
+          ...rateLimitHeaders,
+        },
+      });
+    }
+
+    console.error('Ad completion error:', error);
+    return NextResponse.json({ error: 'Failed to complete ad' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { AdTracker } from '@/app/utils/adTracker';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+// Body: { sessionId, url, part? } — starts the clock for one ad watch
+export async function POST(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const { sessionId, url, part } = await request.json();
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'Invalid URL' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const session = await AdTracker.startAd(sessionId, url, part);
+    return NextResponse.json(session, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Ad session error:', error);
+    return NextResponse.json({ error: 'Failed to start ad' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import { BatchDownload } from '@/app/utils/batchDownload';
+import { LinkList, MAX_BATCH_URLS } from '@/app/utils/linkList';
+import { DownloadWorker } from '@/app/utils/downloadWorker';
+import { DownloadLimiter } from '@/app/utils/downloadLimiter';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { BandwidthThrottle } from '@/app/utils/bandwidthThrottle';
+import { StreamPipeline } from '@/app/utils/streamPipeline';
+import { FilenameResolver } from '@/app/utils/filenameResolver';
+import { Privacy } from '@/app/utils/privacy';
+import { DownloadQueue } from '@/app/utils/downloadQueue';
+import { DownloadError } from '@/app/utils/downloadError';
+
+const MAX_LINK_FILE_SIZE = 1024 * 1024; // 1MB of links is far more than MAX_BATCH_URLS
+
+interface BatchRequest {
+  urls: string[];
+  sessionId: string;
+  mode?: string;
+  output: 'queue' | 'zip';
+}
+
+// JSON: { urls: string[] | string, sessionId, mode, output }
+// Form data: urls (text), file (a .txt or .csv of links), sessionId, mode, output
+async function readBatch(request: Request): Promise<BatchRequest | string> {
+  let text = '';
+  let fileLinks: string[] = [];
+  let fields: Record<string, unknown>;
+
+  if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const form = await request.formData();
+    fields = Object.fromEntries(Array.from(form.entries()).filter(([, value]) => typeof value === 'string'));
+    text = String(fields.urls || '');
+
+    const file = form.get('file');
+    if (file && typeof file !== 'string') {
+      if (file.size > MAX_LINK_FILE_SIZE) return 'The link file is too large';
+      fileLinks = LinkList.parse(await file.text(), LinkList.formatOf(file.name));
+    }
+  } else {
+    fields = await request.json();
+    text = Array.isArray(fields.urls) ? fields.urls.join('\n') : String(fields.urls || '');
+  }
+
+  if (!fields.sessionId || typeof fields.sessionId !== 'string') return 'Missing session';
+
+  const urls = Array.from(new Set(LinkList.parse(text).concat(fileLinks)));
+  if (urls.length === 0) return 'No links found';
+  if (urls.length > MAX_BATCH_URLS) return `A batch can hold at most ${MAX_BATCH_URLS} links`;
+
+  return {
+    urls,
+    sessionId: fields.sessionId,
+    mode: typeof fields.mode === 'string' ? fields.mode : undefined,
+    output: fields.output === 'zip' ? 'zip' : 'queue',
+  };
+}
+
+export async function POST(request: Request) {
+  let isPrivate = true;
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const ip = RateLimiter.clientIp(request);
+    const batch = await readBatch(request).catch(() => 'Invalid request body');
+
+    // A batch is one request and starts one download as far as the rate
+    // limits go; the quota below counts every link
+    const rateLimit = await RateLimiter.check([
+      { policy: 'requests', key: ip },
+      ...(typeof batch !== 'string' ? [{ policy: 'downloads' as const, key: batch.sessionId }] : []),
+    ]);
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    if (typeof batch === 'string') {
+      return NextResponse.json({ error: batch }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const { urls, sessionId, mode } = batch;
+    isPrivate = Privacy.isPrivate(mode);
+    if (batch.output === 'queue') {
+      DownloadQueue.assertQueueable(mode);
+    }
+
+    // The whole batch has to fit in what is left of the quota
+    const quota = await DownloadLimiter.checkDownloadLimit(sessionId, ip);
+    if (!quota.allowed || (quota.remaining !== null && quota.remaining < urls.length)) {
+      const error = quota.allowed
+        ? DownloadLimiter.limitError(quota, `Only ${quota.remaining} downloads are left in your quota`)
+        : DownloadLimiter.limitError(quota);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const record = async (url: string, type: string) => {
+      await DownloadLimiter.countDownload(sessionId, ip);
+      if (isPrivate) return;
+      await DownloadHistory.record(sessionId, url, type);
+      await DownloadLimiter.recordDownload(sessionId, url, 'file');
+    };
+
+    if (batch.output === 'queue') {
+      const results = await BatchDownload.enqueueAll(sessionId, urls, mode, url => record(url, 'file'));
+      DownloadWorker.start();
+
+      return NextResponse.json({ results }, {
+        status: results.some(result => result.job) ? 201 : 422,
+        headers: {
+          'Cache-Control': 'no-store',
+          ...Privacy.headers(mode),
+          ...rateLimitHeaders,
+        },
+      });
+    }
+
+    // Fast downloads are unlocked per URL, so an archive always goes at the free tier
+    const archive = StreamPipeline.pipe(
+      BatchDownload.createZip(urls, { signal: request.signal, isPrivate, onEntry: record }),
+      [BandwidthThrottle.createTransform(sessionId, 'slow', ip), DownloadLimiter.createTransform(sessionId, ip)]
+    );
+
+    return new NextResponse(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': FilenameResolver.contentDisposition(`batch-${new Date().toISOString().slice(0, 10)}.zip`),
+        'Cache-Control': 'private, no-store',
+        ...Privacy.headers(mode),
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    const downloadError = DownloadError.from(error);
+    if (downloadError.code !== 'internal_error') {
+      return NextResponse.json(downloadError.toJSON(), {
+        status: downloadError.status,
+        headers: { ...downloadError.headers(), ...rateLimitHeaders },
+      });
+    }
+
+    Privacy.logError('Batch error:', error, isPrivate);
+    return NextResponse.json({ error: 'Batch download failed' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
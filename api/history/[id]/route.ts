@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId') || '';
+    const removed = await DownloadHistory.remove(sessionId, params.id);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'History entry not found' }, { status: 404, headers: rateLimitHeaders });
+    }
+
+    return new NextResponse(null, { status: 204, headers: rateLimitHeaders });
+  } catch (error) {
+    console.error('History delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete history entry' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { FilenameResolver } from '@/app/utils/filenameResolver';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+// ?sessionId=...&format=json|csv plus the same filters as the list
+export async function GET(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const sessionId = params.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const format = params.get('format') || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'Format must be json or csv' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const filter = DownloadHistory.parseFilter(params);
+    if (typeof filter === 'string') {
+      return NextResponse.json({ error: filter }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const entries = await DownloadHistory.export(sessionId, filter);
+    const filename = `download-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(format === 'csv' ? DownloadHistory.toCsv(entries) : JSON.stringify(entries, null, 2), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': FilenameResolver.contentDisposition(filename),
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('History export error:', error);
+    return NextResponse.json({ error: 'Failed to export download history' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+// ?sessionId=...&page=1&pageSize=20 plus the filters in DownloadHistory.parseFilter
+export async function GET(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const sessionId = params.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const filter = DownloadHistory.parseFilter(params);
+    if (typeof filter === 'string') {
+      return NextResponse.json({ error: filter }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const page = await DownloadHistory.list(
+      sessionId,
+      filter,
+      parseInt(params.get('page') || '1', 10),
+      parseInt(params.get('pageSize') || '', 10)
+    );
+
+    return NextResponse.json(page, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('History list error:', error);
+    return NextResponse.json({ error: 'Failed to load download history' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
+
+// Clears the session's whole history
+export async function DELETE(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const deleted = await DownloadHistory.clear(sessionId);
+    return NextResponse.json({ deleted }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('History clear error:', error);
+    return NextResponse.json({ error: 'Failed to clear download history' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
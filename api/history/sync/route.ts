@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+// Body: { sessionId, entries: [{ url, type, timestamp }] } from SessionManager.
+// Returns the newest server entries, which the client keeps as its local copy
+export async function POST(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const { sessionId, entries } = await request.json();
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const result = await DownloadHistory.merge(sessionId, entries);
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('History sync error:', error);
+    return NextResponse.json({ error: 'Failed to sync download history' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
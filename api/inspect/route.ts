@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { ContentInspector } from '@/app/utils/contentInspector';
+import { TorrentParser } from '@/app/utils/torrentParser';
+import { UrlGuard } from '@/app/utils/urlGuard';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { DownloadError } from '@/app/utils/downloadError';
+import { Privacy } from '@/app/utils/privacy';
+
+// A dry run of /api/download: what the URL points to and how it would be
+// fetched, without downloading it. Only counts as a request, not a download
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams;
+  const url = query.get('url');
+  const isPrivate = Privacy.isPrivate(query.get('mode'));
+  const responseHeaders = Privacy.headers(query.get('mode'));
+
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(responseHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      throw RateLimiter.limitError(rateLimit);
+    }
+
+    if (!url) {
+      throw new DownloadError('invalid_url', 'Invalid URL');
+    }
+
+    // Never fetch private, loopback or metadata addresses on a user's behalf
+    if (!TorrentParser.isMagnet(url)) {
+      await UrlGuard.check(url);
+    }
+
+    const inspection = await ContentInspector.inspect(url, !isPrivate);
+    return NextResponse.json(inspection, {
+      headers: { 'Cache-Control': 'private, no-store', ...responseHeaders },
+    });
+  } catch (error) {
+    const inspectError = DownloadError.from(error);
+    if (inspectError.code === 'internal_error') {
+      Privacy.logError('Inspect error:', error, isPrivate);
+    }
+    return NextResponse.json(inspectError.toJSON(), {
+      status: inspectError.status,
+      headers: { ...inspectError.headers(), ...responseHeaders },
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { ProgressTracker } from '@/app/utils/progressTracker';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { DownloadError } from '@/app/utils/downloadError';
+
+const POLL_INTERVAL = 1000; // 1 second
+const HEARTBEAT_INTERVAL = 15000; // Keeps proxies from closing an idle stream
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    const job = await ProgressTracker.getJob(params.id);
+
+    if (!job || job.sessionId !== sessionId) {
+      return NextResponse.json({ error: 'Download job not found' }, { status: 404, headers: rateLimitHeaders });
+    }
+  } catch (error) {
+    console.error('Progress lookup error:', error);
+    const downloadError = DownloadError.from(error);
+    return NextResponse.json(downloadError.toJSON(), { status: downloadError.status, headers: rateLimitHeaders });
+  }
+
+  const encoder = new TextEncoder();
+  let poller: ReturnType<typeof setInterval> | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stop = () => {
+    closed = true;
+    clearInterval(poller);
+    clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastUpdate = '';
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        controller.close();
+      };
+
+      const send = async () => {
+        try {
+          const current = await ProgressTracker.getJob(params.id);
+          if (closed) return;
+
+          if (!current) {
+            controller.enqueue(encoder.encode('event: gone\ndata: {}\n\n'));
+            close();
+            return;
+          }
+
+          if (current.updatedAt !== lastUpdate) {
+            lastUpdate = current.updatedAt;
+            controller.enqueue(encoder.encode(`event: progress\ndata: ${JSON.stringify(current)}\n\n`));
+          }
+
+          if (ProgressTracker.isFinished(current)) {
+            close();
+          }
+        } catch (error) {
+          console.error('Progress stream error:', error);
+          close();
+        }
+      };
+
+      poller = setInterval(send, POLL_INTERVAL);
+      heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'));
+      }, HEARTBEAT_INTERVAL);
+      request.signal.addEventListener('abort', stop);
+      send();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      'Connection': 'keep-alive',
+      ...rateLimitHeaders,
+    },
+  });
+}
\ No newline at end of file
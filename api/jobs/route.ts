@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { ProgressTracker } from '@/app/utils/progressTracker';
+import { Privacy } from '@/app/utils/privacy';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+export async function POST(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const { url, sessionId, mode } = await request.json();
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'Invalid URL' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const job = await ProgressTracker.createJob(sessionId, url, Privacy.isPrivate(mode));
+
+    return NextResponse.json(job, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+        ...Privacy.headers(mode),
+      },
+    });
+  } catch (error) {
+    console.error('Job creation error:', error);
+    return NextResponse.json({ error: 'Failed to create download job' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
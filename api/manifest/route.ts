@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { PartManifest } from '@/app/utils/partManifest';
+import { FilenameResolver } from '@/app/utils/filenameResolver';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+export async function GET(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const url = params.get('url');
+    const sessionId = params.get('sessionId');
+
+    if (!url) {
+      return NextResponse.json({ error: 'Invalid URL' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const manifest = await PartManifest.get(sessionId, url);
+    if (!manifest) {
+      return NextResponse.json({ error: 'No manifest for this download' }, { status: 404, headers: rateLimitHeaders });
+    }
+
+    return NextResponse.json(manifest, {
+      headers: {
+        'Content-Disposition': FilenameResolver.contentDisposition(`${manifest.filename}.manifest.json`),
+        'Cache-Control': 'private, no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Manifest error:', error);
+    return NextResponse.json({ error: 'Failed to load manifest' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
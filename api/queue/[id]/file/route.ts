@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { DownloadQueue } from '@/app/utils/downloadQueue';
+import { StreamPipeline } from '@/app/utils/streamPipeline';
+import { BandwidthThrottle } from '@/app/utils/bandwidthThrottle';
+import { AdTracker } from '@/app/utils/adTracker';
+import { FilenameResolver } from '@/app/utils/filenameResolver';
+import { RangeRequest } from '@/app/utils/rangeRequest';
+import { DownloadLimiter } from '@/app/utils/downloadLimiter';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { Privacy } from '@/app/utils/privacy';
+
+// Hands a finished queue download to the browser, resumable like /api/download
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    // The download was counted when it was queued; fetching it is just a request
+    const ip = RateLimiter.clientIp(request);
+    const rateLimit = await RateLimiter.consume('requests', ip);
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const query = new URL(request.url).searchParams;
+    const sessionId = query.get('sessionId') || '';
+    const completed = await DownloadQueue.getCompletedFile(sessionId, params.id);
+
+    if (!completed) {
+      return NextResponse.json({ error: 'Download is not ready' }, { status: 404, headers: rateLimitHeaders });
+    }
+
+    const { job, filePath } = completed;
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats) {
+      return NextResponse.json({ error: 'Downloaded file is no longer available' }, { status: 410, headers: rateLimitHeaders });
+    }
+
+    const range = RangeRequest.parse(request.headers.get('range'), stats.size);
+    if (range === 'unsatisfiable') {
+      return NextResponse.json(
+        { error: 'Requested range not satisfiable' },
+        { status: 416, headers: { 'Content-Range': `bytes */${stats.size}`, ...rateLimitHeaders } }
+      );
+    }
+
+    const etag = `"${params.id}-${stats.size}"`;
+    const lastModified = stats.mtime.toUTCString();
+    const fileRange = range && RangeRequest.ifRangeMatches(request.headers.get('if-range'), etag, lastModified)
+      ? range
+      : null;
+
+    // Sending a queued download only uses bytes of the quota
+    const quota = await DownloadLimiter.checkDownloadLimit(sessionId, ip, true);
+    if (!quota.allowed || !DownloadLimiter.fits(quota, fileRange ? RangeRequest.byteCount(fileRange) : stats.size)) {
+      const error = DownloadLimiter.limitError(quota);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const unlocked = query.get('downloadSpeed') === 'fast' && await AdTracker.isUnlocked(sessionId, job.url, 1, query.get('unlockToken'));
+    const source = createReadStream(filePath, fileRange ? { start: fileRange.start, end: fileRange.end } : {});
+    const body = StreamPipeline.pipe(StreamPipeline.fromNodeStream(source), [
+      BandwidthThrottle.createTransform(sessionId, unlocked ? 'fast' : 'slow', ip),
+      DownloadLimiter.createTransform(sessionId, ip),
+    ]);
+
+    return new NextResponse(body, {
+      status: fileRange ? 206 : 200,
+      headers: {
+        'Content-Type': job.mimeType,
+        'Content-Length': (fileRange ? RangeRequest.byteCount(fileRange) : stats.size).toString(),
+        ...(fileRange && { 'Content-Range': RangeRequest.contentRange(fileRange, stats.size) }),
+        'Accept-Ranges': 'bytes',
+        'ETag': etag,
+        'Last-Modified': lastModified,
+        'Content-Disposition': FilenameResolver.contentDisposition(job.filename),
+        'Cache-Control': 'private, no-store',
+        ...DownloadLimiter.headers(quota),
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    Privacy.logError('Queue file error:', error, true);
+    return NextResponse.json({ error: 'Failed to read downloaded file' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { DownloadQueue, InvalidTransitionError, QueueAction } from '@/app/utils/downloadQueue';
+import { DownloadWorker } from '@/app/utils/downloadWorker';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { Privacy } from '@/app/utils/privacy';
+
+const ACTIONS: QueueAction[] = ['pause', 'resume', 'cancel', 'retry'];
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId') || '';
+    const job = await DownloadQueue.get(sessionId, params.id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Download job not found' }, { status: 404, headers: rateLimitHeaders });
+    }
+
+    return NextResponse.json(job, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    Privacy.logError('Queue job error:', error, true);
+    return NextResponse.json({ error: 'Failed to load download job' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
+
+// Body: { sessionId, action: 'pause' | 'resume' | 'cancel' | 'retry' }
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const { sessionId, action } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Unknown action' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const job = await DownloadQueue.apply(sessionId || '', params.id, action);
+    if (!job) {
+      return NextResponse.json({ error: 'Download job not found' }, { status: 404, headers: rateLimitHeaders });
+    }
+
+    DownloadWorker.start();
+    return NextResponse.json(job, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message, status: error.status }, { status: 409, headers: rateLimitHeaders });
+    }
+
+    Privacy.logError('Queue update error:', error, true);
+    return NextResponse.json({ error: 'Failed to update download job' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId') || '';
+    const removed = await DownloadQueue.remove(sessionId, params.id);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Download job not found' }, { status: 404, headers: rateLimitHeaders });
+    }
+
+    return new NextResponse(null, { status: 204, headers: rateLimitHeaders });
+  } catch (error) {
+    Privacy.logError('Queue delete error:', error, true);
+    return NextResponse.json({ error: 'Failed to delete download job' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
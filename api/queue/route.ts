@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { DownloadQueue, QueueRejectedError } from '@/app/utils/downloadQueue';
+import { DownloadWorker } from '@/app/utils/downloadWorker';
+import { DownloadLimiter } from '@/app/utils/downloadLimiter';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { DownloadError } from '@/app/utils/downloadError';
+import { Privacy } from '@/app/utils/privacy';
+
+export async function GET(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    DownloadWorker.start();
+    const jobs = await DownloadQueue.list(sessionId);
+
+    return NextResponse.json({ jobs }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    Privacy.logError('Queue list error:', error, true);
+    return NextResponse.json({ error: 'Failed to load download queue' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
+
+export async function POST(request: Request) {
+  let isPrivate = true;
+  const rateLimitHeaders: Record<string, string> = {};
+  try {
+    const { url, sessionId, mode } = await request.json();
+    isPrivate = Privacy.isPrivate(mode);
+
+    const ip = RateLimiter.clientIp(request);
+    const rateLimit = await RateLimiter.check([
+      { policy: 'requests', key: ip },
+      ...(typeof sessionId === 'string' && sessionId ? [{ policy: 'downloads' as const, key: sessionId }] : []),
+    ]);
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      throw RateLimiter.limitError(rateLimit);
+    }
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'Invalid URL' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing session' }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    DownloadQueue.assertQueueable(mode);
+
+    const quota = await DownloadLimiter.checkDownloadLimit(sessionId, ip);
+    if (!quota.allowed) {
+      throw DownloadLimiter.limitError(quota);
+    }
+
+    const job = await DownloadQueue.add(sessionId, url);
+    await DownloadLimiter.countDownload(sessionId, ip);
+    await DownloadHistory.record(sessionId, url, 'file');
+    await DownloadLimiter.recordDownload(sessionId, url, 'file');
+    DownloadWorker.start();
+
+    return NextResponse.json(job, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store',
+        ...Privacy.headers(mode),
+        ...rateLimitHeaders,
+      },
+    });
+  } catch (error) {
+    if (error instanceof QueueRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: 422, headers: rateLimitHeaders });
+    }
+
+    const downloadError = DownloadError.from(error);
+    if (downloadError.code !== 'internal_error') {
+      return NextResponse.json(downloadError.toJSON(), {
+        status: downloadError.status,
+        headers: { ...downloadError.headers(), ...rateLimitHeaders },
+      });
+    }
+
+    Privacy.logError('Queue error:', error, isPrivate);
+    return NextResponse.json({ error: 'Failed to queue download' }, { status: 500, headers: rateLimitHeaders });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { UrlGuard } from '@/app/utils/urlGuard';
+import { TorrentParser } from '@/app/utils/torrentParser';
+import { Privacy } from '@/app/utils/privacy';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+
+const VALIDATE_TIMEOUT = 10000; // 10 seconds
+
+export async function POST(request: Request) {
+  const rateLimitHeaders: Record<string, string> = {};
+  let isPrivate = true;
+  try {
+    const rateLimit = await RateLimiter.consume('requests', RateLimiter.clientIp(request));
+    Object.assign(rateLimitHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      const error = RateLimiter.limitError(rateLimit);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...rateLimitHeaders } });
+    }
+
+    const { url, mode } = await request.json();
+    isPrivate = Privacy.isPrivate(mode);
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json(
+        { valid: false, reason: 'invalid_url', error: 'Invalid URL' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    // Magnet links are handed to the user's torrent client, never fetched
+    if (TorrentParser.isMagnet(url)) {
+      try {
+        TorrentParser.parseMagnet(url);
+        return NextResponse.json({ valid: true, url }, { headers: rateLimitHeaders });
+      } catch (error) {
+        return NextResponse.json(
+          { valid: false, reason: 'invalid_magnet', error: (error as Error).message },
+          { status: 400, headers: rateLimitHeaders }
+        );
+      }
+    }
+
+    await UrlGuard.check(url);
+
+    // Every redirect hop is re-checked by the guarded client
+    const response = await UrlGuard.client.head(url, {
+      timeout: VALIDATE_TIMEOUT,
+      validateStatus: () => true,
+    });
+
+    // Some servers refuse HEAD but serve GET just fine
+    if (response.status >= 400 && response.status !== 405 && response.status !== 501) {
+      return NextResponse.json(
+        {
+          valid: false,
+          reason: 'upstream_error',
+          error: `The server responded with status ${response.status}`,
+          upstreamStatus: response.status,
+        },
+        { status: 422, headers: rateLimitHeaders }
+      );
+    }
+
+    return NextResponse.json({
+      valid: true,
+      url: response.request?.res?.responseUrl || url,
+    }, { headers: rateLimitHeaders });
+  } catch (error) {
+    const guardError = UrlGuard.fromError(error);
+    if (guardError) {
+      return NextResponse.json(
+        { valid: false, reason: guardError.reason, error: guardError.message },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    Privacy.logError('Validation error:', error, isPrivate);
+    return NextResponse.json(
+      { valid: false, reason: 'unreachable', error: 'The URL could not be reached' },
+      { status: 422, headers: rateLimitHeaders }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BandwidthThrottle } from './bandwidthThrottle';
+import { StreamPipeline } from './streamPipeline';
+import { UrlGuard } from './urlGuard';
+
+const RATE = 256 * 1024; // bytes per second
+const BURST = 64 * 1024; // what a fresh bucket holds at this rate
+const FILE_SIZE = 192 * 1024;
+const FILE = Buffer.alloc(FILE_SIZE, 'x');
+
+let server: http.Server;
+let fileUrl: string;
+
+beforeAll(async () => {
+  // The upstream runs on loopback, which the guard rightly refuses
+  vi.spyOn(UrlGuard, 'isBlockedAddress').mockReturnValue(false);
+  BandwidthThrottle.setTierRate('slow', RATE);
+
+  server = http.createServer((_, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': FILE_SIZE });
+    response.end(FILE);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  fileUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/file.bin`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+// Streams the upstream file through the throttle; resolves with the bytes and seconds taken
+async function download(sessionId: string | undefined, ip: string): Promise<{ bytes: number; seconds: number }> {
+  const started = Date.now();
+  const upstream = await StreamPipeline.fromUpstream(fileUrl);
+  const reader = StreamPipeline.pipe(upstream.body, [
+    BandwidthThrottle.createTransform(sessionId, 'slow', ip),
+  ]).getReader();
+
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+  }
+  return { bytes, seconds: (Date.now() - started) / 1000 };
+}
+
+// The burst goes out at once, the rest at the tier rate
+function expectedSeconds(bytes: number): number {
+  return (bytes - BURST) / RATE;
+}
+
+describe('BandwidthThrottle', () => {
+  it('holds a download from a local upstream to the tier rate', async () => {
+    const { bytes, seconds } = await download('session-rate', '192.0.2.1');
+
+    expect(bytes).toBe(FILE_SIZE);
+    expect(seconds).toBeGreaterThanOrEqual(expectedSeconds(FILE_SIZE) * 0.9);
+    expect(seconds).toBeLessThan(expectedSeconds(FILE_SIZE) * 2);
+  });
+
+  it('shares one bucket between the downloads of a session', async () => {
+    const results = await Promise.all([
+      download('session-shared', '192.0.2.2'),
+      download('session-shared', '192.0.2.3'),
+    ]);
+    const seconds = Math.max(...results.map(result => result.seconds));
+
+    expect(seconds).toBeGreaterThanOrEqual(expectedSeconds(FILE_SIZE * 2) * 0.9);
+  });
+
+  it('gives anonymous downloads a bucket per address', async () => {
+    const results = await Promise.all([
+      download(undefined, '198.51.100.1'),
+      download(undefined, '198.51.100.2'),
+    ]);
+    const seconds = Math.max(...results.map(result => result.seconds));
+
+    // Sharing one bucket would take as long as two downloads in a row
+    expect(seconds).toBeLessThan(expectedSeconds(FILE_SIZE * 2) * 0.9);
+  });
+
+  it('makes anonymous downloads from one address share its bucket', async () => {
+    const results = await Promise.all([
+      download(undefined, '198.51.100.3'),
+      download(undefined, '198.51.100.3'),
+    ]);
+    const seconds = Math.max(...results.map(result => result.seconds));
+
+    expect(seconds).toBeGreaterThanOrEqual(expectedSeconds(FILE_SIZE * 2) * 0.9);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { ByteTransform } from './streamPipeline';
+
+export type SpeedTier = 'slow' | 'fast';
+
+const SLICE_SIZE = 16 * 1024; // Largest piece released to the client at once
+const MIN_BURST = 64 * 1024;
+const IDLE_BUCKET_TTL = 5 * 60 * 1000; // 5 minutes
+
+const tierRates: Record<SpeedTier, number> = {
+  slow: parseInt(process.env.SLOW_DOWNLOAD_RATE || '', 10) || 100 * 1024, // 100KB/s
+  fast: parseInt(process.env.FAST_DOWNLOAD_RATE || '', 10) || 10 * 1024 * 1024, // 10MB/s
+};
+
+const GLOBAL_RATE = parseInt(process.env.GLOBAL_DOWNLOAD_RATE || '', 10) || 100 * 1024 * 1024; // 100MB/s
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  lastUsed: number;
+
+  constructor(private rate: number, private capacity: number = Math.max(rate / 4, MIN_BURST)) {
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+    this.lastUsed = this.lastRefill;
+  }
+
+  setRate(rate: number, capacity: number = Math.max(rate / 4, MIN_BURST)) {
+    this.refill();
+    this.rate = rate;
+    this.capacity = capacity;
+    this.tokens = Math.min(this.tokens, capacity);
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  async take(amount: number): Promise<void> {
+    this.refill();
+    this.lastUsed = Date.now();
+
+    // Tokens may go negative: each caller waits for its own deficit, so
+    // concurrent callers are served in the order they asked
+    this.tokens -= amount;
+    if (this.tokens >= 0) return;
+
+    const waitMs = (-this.tokens / this.rate) * 1000;
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+export class BandwidthThrottle {
+  private static globalBucket = new TokenBucket(GLOBAL_RATE);
+  private static sessionBuckets: Map<string, TokenBucket> = new Map();
+  private static sessionRates: Map<string, number> = new Map();
+
+  static getTierRate(tier: SpeedTier): number {
+    return tierRates[tier];
+  }
+
+  static setTierRate(tier: SpeedTier, bytesPerSecond: number) {
+    tierRates[tier] = bytesPerSecond;
+    this.sessionBuckets.forEach((bucket, key) => {
+      const [sessionId, bucketTier] = this.parseKey(key);
+      if (bucketTier === tier) {
+        bucket.setRate(this.getSessionRate(sessionId, tier));
+      }
+    });
+  }
+
+  // Caps a single session below its tier rate; pass null to remove the cap
+  static setSessionRate(sessionId: string, bytesPerSecond: number | null) {
+    if (bytesPerSecond === null) {
+      this.sessionRates.delete(sessionId);
+    } else {
+      this.sessionRates.set(sessionId, bytesPerSecond);
+    }
+
+    (['slow', 'fast'] as SpeedTier[]).forEach((tier) => {
+      this.sessionBuckets.get(this.bucketKey(sessionId, tier))?.setRate(this.getSessionRate(sessionId, tier));
+    });
+  }
+
+  static setGlobalRate(bytesPerSecond: number) {
+    this.globalBucket.setRate(bytesPerSecond);
+  }
+
+  static getSessionRate(sessionId: string, tier: SpeedTier): number {
+    const sessionRate = this.sessionRates.get(sessionId);
+    return sessionRate ? Math.min(sessionRate, tierRates[tier]) : tierRates[tier];
+  }
+
+  // All concurrent downloads of a session on the same tier share one bucket,
+  // and every download draws from the global bucket as well. Downloads
+  // without a session share their address's bucket instead
+  static createTransform(sessionId: string | undefined, tier: SpeedTier, ip: string): ByteTransform {
+    const sessionBucket = this.getSessionBucket(sessionId || `ip:${ip}`, tier);
+    const globalBucket = this.globalBucket;
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+      async transform(chunk, controller) {
+        for (let offset = 0; offset < chunk.byteLength; offset += SLICE_SIZE) {
+          const slice = chunk.subarray(offset, Math.min(offset + SLICE_SIZE, chunk.byteLength));
+          await Promise.all([
+            sessionBucket.take(slice.byteLength),
+            globalBucket.take(slice.byteLength),
+          ]);
+          controller.enqueue(slice);
+        }
+      },
+    });
+  }
+
+  private static getSessionBucket(sessionId: string, tier: SpeedTier): TokenBucket {
+    this.evictIdleBuckets();
+
+    const key = this.bucketKey(sessionId, tier);
+    let bucket = this.sessionBuckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.getSessionRate(sessionId, tier));
+      this.sessionBuckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private static evictIdleBuckets() {
+    const cutoff = Date.now() - IDLE_BUCKET_TTL;
+    this.sessionBuckets.forEach((bucket, key) => {
+      if (bucket.lastUsed < cutoff) {
+        this.sessionBuckets.delete(key);
+      }
+    });
+  }
+
+  private static bucketKey(sessionId: string, tier: SpeedTier): string {
+    return `${tier}:${sessionId}`;
+  }
+
+  private static parseKey(key: string): [string, SpeedTier] {
+    const separator = key.indexOf(':');
+    return [key.slice(separator + 1), key.slice(0, separator) as SpeedTier];
+  }
+}
\ No newline at end of file
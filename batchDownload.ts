@@ -0,0 +1,139 @@
+import { detectContentType, ContentType } from './contentDetector';
+import { DownloadError } from './downloadError';
+import { DownloadQueue, QueuedDownload, QueueRejectedError } from './downloadQueue';
+import { downloadSlots } from './fileSplitter';
+import { FilenameResolver } from './filenameResolver';
+import { Privacy } from './privacy';
+import { StreamPipeline } from './streamPipeline';
+import { UrlGuard } from './urlGuard';
+import { ZipEntry, ZipStream } from './zipStream';
+
+const LOOKUP_CONCURRENCY = 4; // URLs looked up at once when queueing
+const ERRORS_ENTRY = 'errors.txt';
+
+export interface BatchResult {
+  url: string;
+  job?: QueuedDownload;
+  error?: string;
+}
+
+export interface ZipOptions {
+  signal?: AbortSignal;
+  isPrivate?: boolean; // defaults to true, which keeps URLs out of the logs
+  onEntry?: (url: string, type: ContentType) => Promise<void>; // called for each file added
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof QueueRejectedError) return error.message;
+  return DownloadError.from(error).message;
+}
+
+export class BatchDownload {
+  // Queues every URL and reports on each; a bad URL does not stop the rest
+  static async enqueueAll(
+    sessionId: string,
+    urls: string[],
+    mode: unknown,
+    onQueued?: (url: string) => Promise<void>
+  ): Promise<BatchResult[]> {
+    DownloadQueue.assertQueueable(mode);
+
+    const results: BatchResult[] = new Array(urls.length);
+    let next = 0;
+
+    const lookup = async () => {
+      while (next < urls.length) {
+        const index = next++;
+        const url = urls[index];
+        try {
+          const job = await DownloadQueue.add(sessionId, url);
+          await onQueued?.(url);
+          results[index] = { url, job };
+        } catch (error) {
+          if (!(error instanceof QueueRejectedError) && DownloadError.from(error).code === 'internal_error') {
+            console.error('Batch queue error:', error);
+          }
+          results[index] = { url, error: describeError(error) };
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, urls.length) }, lookup));
+    return results;
+  }
+
+  // Files are fetched one after another, each holding a download slot, and
+  // written straight into the archive. URLs that fail are listed in errors.txt
+  static createZip(urls: string[], options: ZipOptions = {}): ReadableStream<Uint8Array> {
+    return ZipStream.create(this.zipEntries(urls, options));
+  }
+
+  private static async *zipEntries(urls: string[], options: ZipOptions): AsyncGenerator<ZipEntry> {
+    const names = new Set<string>([ERRORS_ENTRY]);
+    const failures: string[] = [];
+
+    for (const url of urls) {
+      let fetched: { entry: ZipEntry; type: ContentType };
+      try {
+        fetched = await this.fetchEntry(url, names, options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        failures.push(`${url}\t${describeError(error)}`);
+        continue;
+      }
+
+      // Bookkeeping must not cost the user a file that is already on its way
+      options.onEntry?.(url, fetched.type).catch(error => {
+        Privacy.logError('Batch record error:', error, options.isPrivate ?? true);
+      });
+      yield fetched.entry;
+    }
+
+    if (failures.length > 0) {
+      yield {
+        name: ERRORS_ENTRY,
+        body: StreamPipeline.fromBuffer(new TextEncoder().encode(failures.join('\n') + '\n')),
+      };
+    }
+  }
+
+  private static async fetchEntry(url: string, names: Set<string>, options: ZipOptions): Promise<{ entry: ZipEntry; type: ContentType }> {
+    await UrlGuard.check(url);
+
+    const contentType = await detectContentType(url);
+    if (contentType.type === 'torrent' || contentType.type === 'hls' || contentType.type === 'dash') {
+      throw new QueueRejectedError('Streams and torrents cannot be added to an archive');
+    }
+
+    // The slot is held until the entry has been written or the client leaves
+    await downloadSlots.acquire(options.signal);
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      downloadSlots.release();
+    };
+
+    try {
+      const response = await StreamPipeline.fromUpstream(url, { signal: options.signal, onClose: release });
+      const lastModified = response.headers['last-modified'] ? new Date(response.headers['last-modified']) : null;
+
+      return {
+        entry: {
+          name: ZipStream.uniqueName(FilenameResolver.resolve({
+            contentDisposition: response.headers['content-disposition'],
+            url: response.url,
+            extension: contentType.extension,
+          }), names),
+          body: response.body,
+          size: response.contentLength,
+          modified: lastModified && !isNaN(lastModified.getTime()) ? lastModified : undefined,
+        },
+        type: contentType.type,
+      };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { StreamPipeline, ByteTransform } from './streamPipeline';
+import { ByteRange } from './rangeRequest';
+import { redis } from './redisClient';
+
+export const CONTENT_CACHE_DIR = process.env.CONTENT_CACHE_DIR || path.join(process.cwd(), 'cache');
+const MAX_CACHE_BYTES = process.env.CONTENT_CACHE_MAX_BYTES !== undefined
+  ? parseInt(process.env.CONTENT_CACHE_MAX_BYTES, 10) || 0
+  : 20 * 1024 * 1024 * 1024; // 20GB; 0 turns the cache off
+const ENTRY_TTL = 7 * 24 * 3600; // seconds an unused entry is remembered
+const STALE_TEMP_AGE = 24 * 3600 * 1000; // fills older than this were abandoned
+
+// The upstream headers a cached response is served with
+const KEPT_HEADERS = ['content-type', 'etag', 'last-modified'];
+
+const LRU_KEY = 'content_cache:lru'; // blob digest scored by last use
+const SIZES_KEY = 'content_cache:sizes'; // blob digest -> bytes
+const TOTAL_KEY = 'content_cache:total';
+
+export interface CachedContent {
+  headers: Record<string, string>;
+  size: number; // of the whole entry, not just the range read
+  body: ReadableStream<Uint8Array>;
+}
+
+// Bytes live on disk under their own SHA-256, so identical content is stored
+// once; Redis maps cache keys to digests and keeps the LRU order and sizes
+export class ContentCache {
+  private static cleanedUp = false;
+
+  static get enabled(): boolean {
+    return MAX_CACHE_BYTES > 0;
+  }
+
+  // Only a strong ETag or a Last-Modified date says the bytes are the same
+  // ones as last time; without either nothing is cached
+  static validator(headers: Record<string, string>): string | null {
+    const etag = headers['etag'];
+    if (etag && !etag.startsWith('W/')) return `etag:${etag}`;
+    return headers['last-modified'] ? `modified:${headers['last-modified']}` : null;
+  }
+
+  static key(url: string, validator: string, range: ByteRange): string {
+    return createHash('sha256').update(`${url}\n${validator}\n${range.start}-${range.end}`).digest('hex');
+  }
+
+  // A file handle is opened before anything is streamed, so an eviction that
+  // unlinks the blob mid-read leaves this reader with the bytes it already has
+  static async read(key: string, range?: ByteRange): Promise<CachedContent | null> {
+    if (!this.enabled) return null;
+
+    const entry = await redis.hgetall(this.entryKey(key));
+    if (!entry.digest) return null;
+
+    const size = Number(entry.size);
+    if (range && (range.start < 0 || range.end >= size)) return null;
+
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.blobPath(entry.digest), 'r');
+    } catch {
+      // Evicted since the entry was written
+      await redis.del(this.entryKey(key));
+      return null;
+    }
+
+    await redis.multi()
+      .zadd(LRU_KEY, 'XX', Date.now(), entry.digest)
+      .expire(this.entryKey(key), ENTRY_TTL)
+      .exec();
+
+    const source = handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+    return {
+      headers: JSON.parse(entry.headers || '{}'),
+      size,
+      body: StreamPipeline.fromNodeStream(source),
+    };
+  }
+
+  // Copies the bytes passing through into a temporary file; only a complete
+  // entry whose source did not change is moved into place, with one rename.
+  // A failing disk never breaks the download itself
+  static createWriter(key: string, size: number, headers: Record<string, string>): ByteTransform {
+    const tempPath = path.join(CONTENT_CACHE_DIR, 'tmp', uuidv4());
+    const hash = createHash('sha256');
+    let handle: fs.FileHandle | null = null;
+    let written = 0;
+    let failed = !this.enabled || size > MAX_CACHE_BYTES;
+
+    const discard = async () => {
+      failed = true;
+      await handle?.close().catch(() => undefined);
+      handle = null;
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    };
+
+    const transformer: Transformer<Uint8Array, Uint8Array> & { cancel: () => Promise<void> } = {
+      start: async () => {
+        if (failed) return;
+        try {
+          await this.cleanUpOnce();
+          await fs.mkdir(path.dirname(tempPath), { recursive: true });
+          handle = await fs.open(tempPath, 'wx');
+        } catch (error) {
+          console.error('Content cache write error:', error);
+          await discard();
+        }
+      },
+      transform: async (chunk, controller) => {
+        if (!failed && handle) {
+          try {
+            await handle.write(chunk);
+            hash.update(chunk);
+            written += chunk.byteLength;
+          } catch (error) {
+            console.error('Content cache write error:', error);
+            await discard();
+          }
+        }
+        controller.enqueue(chunk);
+      },
+      flush: async () => {
+        if (failed || !handle || written !== size) {
+          await discard();
+          return;
+        }
+        try {
+          await handle.sync();
+          await handle.close();
+          handle = null;
+          await this.store(key, tempPath, hash.digest('hex'), size, headers);
+        } catch (error) {
+          console.error('Content cache write error:', error);
+          await discard();
+        }
+      },
+      cancel: discard,
+    };
+
+    return new TransformStream<Uint8Array, Uint8Array>(transformer);
+  }
+
+  private static async store(key: string, tempPath: string, digest: string, size: number, headers: Record<string, string>) {
+    const blobPath = this.blobPath(digest);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    // Concurrent fills of the same bytes rename identical files over each other
+    await fs.rename(tempPath, blobPath);
+
+    const kept = Object.fromEntries(KEPT_HEADERS.filter(name => headers[name]).map(name => [name, headers[name]]));
+    const [[, added]] = await redis.multi()
+      .zadd(LRU_KEY, 'NX', Date.now(), digest)
+      .hset(this.entryKey(key), { digest, size: String(size), headers: JSON.stringify(kept) })
+      .expire(this.entryKey(key), ENTRY_TTL)
+      .exec() as [[Error | null, number], ...unknown[]];
+
+    // Only the fill that added the blob counts its size
+    if (added === 1) {
+      await redis.multi().hset(SIZES_KEY, digest, String(size)).incrby(TOTAL_KEY, size).exec();
+      await this.evict();
+    } else {
+      await redis.zadd(LRU_KEY, 'XX', Date.now(), digest);
+    }
+  }
+
+  // Least recently used blobs go first; ZPOPMIN hands each one to a single evicter
+  private static async evict() {
+    while (Number(await redis.get(TOTAL_KEY)) > MAX_CACHE_BYTES) {
+      const [digest] = await redis.zpopmin(LRU_KEY);
+      if (!digest) {
+        await redis.set(TOTAL_KEY, '0');
+        return;
+      }
+
+      const size = Number(await redis.hget(SIZES_KEY, digest)) || 0;
+      await redis.multi().hdel(SIZES_KEY, digest).decrby(TOTAL_KEY, size).exec();
+      await fs.rm(this.blobPath(digest), { force: true }).catch(error => {
+        console.error('Content cache eviction error:', error);
+      });
+    }
+  }
+
+  // Temporary files left by a crash are never renamed or counted
+  private static async cleanUpOnce() {
+    if (this.cleanedUp) return;
+    this.cleanedUp = true;
+
+    const tempDir = path.join(CONTENT_CACHE_DIR, 'tmp');
+    const names = await fs.readdir(tempDir).catch(() => [] as string[]);
+    for (const name of names) {
+      const file = path.join(tempDir, name);
+      const stats = await fs.stat(file).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > STALE_TEMP_AGE) {
+        await fs.rm(file, { force: true }).catch(() => undefined);
+      }
+    }
+  }
+
+  private static blobPath(digest: string): string {
+    return path.join(CONTENT_CACHE_DIR, digest.slice(0, 2), digest);
+  }
+
+  private static entryKey(key: string): string {
+    return `content_cache:entry:${key}`;
+  }
+}
\ No newline at end of file
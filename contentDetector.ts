@@ -1,84 +1,171 @@
-import axios from 'axios';
-
-export type ContentType = 'file' | 'video' | 'audio' | 'image' | 'torrent';
-
-export interface ContentInfo {
-  type: ContentType;
-  size: number;
-  isLargeFile: boolean;
-}
-
-export async function detectContentType(url: string): Promise<ContentInfo> {
-  try {
-    // Check for torrent files
-    if (url.endsWith('.torrent') || url.startsWith('magnet:?')) {
-      return {
-        type: 'torrent',
-        size: 0,
-        isLargeFile: false
-      };
-    }
-
-    const response = await axios.head(url);
-    const contentType = response.headers['content-type'];
-    const contentLength = parseInt(response.headers['content-length'] || '0', 10);
-    
-    // Check if file is large (5GB or more)
-    const isLargeFile = contentLength >= 5 * 1024 * 1024 * 1024;
-
-    // Check content type from headers
-    if (contentType?.includes('video/')) {
-      return {
-        type: 'video',
-        size: contentLength,
-        isLargeFile
-      };
-    } else if (contentType?.includes('audio/')) {
-      return {
-        type: 'audio',
-        size: contentLength,
-        isLargeFile
-      };
-    } else if (contentType?.includes('image/')) {
-      return {
-        type: 'image',
-        size: contentLength,
-        isLargeFile
-      };
-    }
-
-    // If we can't determine from headers, try to get a small sample
-    const sampleResponse = await axios.get(url, {
-      responseType: 'arraybuffer',
-      maxContentLength: 1024 * 1024 // 1MB sample
-    });
-
-    const buffer = new Uint8Array(sampleResponse.data);
-    
-    // Check for torrent magic number
-    const magicNumber = Array.from(buffer.slice(0, 8))
-      .map(byte => byte.toString(16).padStart(2, '0'))
-      .join('');
-    
-    if (magicNumber === '64383a616e6e6f756e6365') {
-      return {
-        type: 'torrent',
-        size: contentLength,
-        isLargeFile
-      };
-    }
-
-    return {
-      type: 'file',
-      size: contentLength,
-      isLargeFile
-    };
-  } catch (error) {
-    console.error('Error detecting content type:', error);
-    return {
-      type: 'file',
-      size: 0,
-      isLargeFile: false
-    };
-  }
+import { UrlGuard } from './urlGuard';
+import { HlsDownloader } from './hlsDownloader';
+import { DashDownloader } from './dashDownloader';
+import { ContentSniffer, SniffConfidence } from './contentSniffer';
+import { FilenameResolver } from './filenameResolver';
+import { DownloadError } from './downloadError';
+import { AxiosError } from 'axios';
+
+export type ContentType = 'file' | 'video' | 'audio' | 'image' | 'torrent' | 'hls' | 'dash' | 'page';
+
+export interface ContentInfo {
+  type: ContentType;
+  size: number;
+  isLargeFile: boolean;
+  mimeType: string;
+  extension: string;
+  confidence: SniffConfidence;
+  filename?: string; // for content that is downloaded as a single file
+  acceptsRanges?: boolean; // whether the source serves byte ranges
+  cacheHeaders?: Record<string, string>; // the HEAD response's validators and freshness headers
+  finalUrl?: string; // after redirects
+}
+
+// What MetadataCache needs to judge freshness and revalidate
+const CACHE_HEADERS = ['etag', 'last-modified', 'cache-control', 'expires', 'date', 'age'];
+
+export function pickCacheHeaders(headers: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    CACHE_HEADERS.filter(name => headers[name] !== undefined).map(name => [name, String(headers[name])])
+  );
+}
+
+const UNKNOWN_CONTENT = {
+  mimeType: 'application/octet-stream',
+  extension: 'bin',
+  confidence: 'low' as SniffConfidence
+};
+
+export async function detectContentType(url: string): Promise<ContentInfo> {
+  try {
+    // Check for torrent files
+    if (url.endsWith('.torrent') || url.startsWith('magnet:?')) {
+      return {
+        type: 'torrent',
+        size: 0,
+        isLargeFile: false,
+        mimeType: 'application/x-bittorrent',
+        extension: 'torrent',
+        confidence: 'medium'
+      };
+    }
+
+    // HLS playlists are small text files; the segments carry the size
+    if (HlsDownloader.isPlaylistUrl(url)) {
+      return {
+        type: 'hls',
+        size: 0,
+        isLargeFile: false,
+        mimeType: 'application/vnd.apple.mpegurl',
+        extension: 'm3u8',
+        confidence: 'medium'
+      };
+    }
+
+    if (DashDownloader.isManifestUrl(url)) {
+      return {
+        type: 'dash',
+        size: 0,
+        isLargeFile: false,
+        mimeType: 'application/dash+xml',
+        extension: 'mpd',
+        confidence: 'medium'
+      };
+    }
+
+    const response = await UrlGuard.client.head(url);
+    const contentType = response.headers['content-type'];
+    const cacheHeaders = pickCacheHeaders(response.headers as Record<string, unknown>);
+    const finalUrl: string = response.request?.res?.responseUrl || url;
+
+    if (HlsDownloader.isPlaylistContentType(contentType)) {
+      return {
+        type: 'hls',
+        size: 0,
+        isLargeFile: false,
+        mimeType: 'application/vnd.apple.mpegurl',
+        extension: 'm3u8',
+        confidence: 'medium',
+        cacheHeaders,
+        finalUrl
+      };
+    }
+
+    if (DashDownloader.isManifestContentType(contentType)) {
+      return {
+        type: 'dash',
+        size: 0,
+        isLargeFile: false,
+        mimeType: 'application/dash+xml',
+        extension: 'mpd',
+        confidence: 'medium',
+        cacheHeaders,
+        finalUrl
+      };
+    }
+
+    const contentLength = parseInt(response.headers['content-length'] || '0', 10);
+    
+    // Check if file is large (5GB or more)
+    const isLargeFile = contentLength >= 5 * 1024 * 1024 * 1024;
+
+    // The file's own signature wins over the header, which is often
+    // application/octet-stream or simply wrong
+    const sample = await ContentSniffer.fetchSample(url);
+    const detected = ContentSniffer.sniff(sample.data) ?? ContentSniffer.fromMimeType(contentType);
+
+    const filename = FilenameResolver.resolve({
+      contentDisposition: response.headers['content-disposition'],
+      url: finalUrl,
+      extension: detected?.extension
+    });
+
+    if (!detected) {
+      return {
+        type: 'file',
+        size: contentLength,
+        isLargeFile,
+        ...UNKNOWN_CONTENT,
+        filename,
+        acceptsRanges: sample.acceptsRanges,
+        cacheHeaders,
+        finalUrl
+      };
+    }
+
+    // Manifests are small text files; the segments carry the size
+    if (detected.type === 'hls' || detected.type === 'dash') {
+      return {
+        ...detected,
+        size: 0,
+        isLargeFile: false,
+        cacheHeaders,
+        finalUrl
+      };
+    }
+
+    return {
+      ...detected,
+      size: contentLength,
+      isLargeFile,
+      filename,
+      acceptsRanges: sample.acceptsRanges,
+      cacheHeaders,
+      finalUrl
+    };
+  } catch (error) {
+    // Some servers refuse HEAD but serve GET; anything else is a real
+    // failure the caller should report rather than a download attempt
+    const status = error instanceof AxiosError ? error.response?.status : undefined;
+    if (status !== 405 && status !== 501) {
+      throw DownloadError.from(error);
+    }
+
+    return {
+      type: 'file',
+      size: 0,
+      isLargeFile: false,
+      ...UNKNOWN_CONTENT
+    };
+  }
 } 
\ No newline at end of file
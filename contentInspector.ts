@@ -0,0 +1,130 @@
+import { ContentType } from './contentDetector';
+import { MetadataCache } from './metadataCache';
+import { FileSplitter } from './fileSplitter';
+import { HlsDownloader, HlsVariant } from './hlsDownloader';
+import { DashDownloader } from './dashDownloader';
+import { TorrentParser, TorrentMetadata } from './torrentParser';
+import { MediaExtractor, MediaCandidate } from './mediaExtractor';
+import { SniffConfidence } from './contentSniffer';
+
+const MAX_TORRENT_FILES_LISTED = 1000;
+
+export interface InspectedPart {
+  partNumber: number;
+  size: number;
+}
+
+export type MediaDetails =
+  | { kind: 'hls_master'; variants: HlsVariant[] }
+  | { kind: 'hls_media'; segmentCount: number; duration: number; isLive: boolean }
+  | { kind: 'dash' } & ReturnType<typeof DashDownloader.describe>
+  | { kind: 'page'; candidates: MediaCandidate[] };
+
+export interface Inspection {
+  url: string;
+  finalUrl: string;
+  type: ContentType;
+  filename: string | null;
+  size: number | null; // null when the source does not say
+  mimeType: string;
+  extension: string;
+  confidence: SniffConfidence;
+  acceptsRanges: boolean | null; // null when unknown
+  etag: string | null;
+  lastModified: string | null;
+  parts: InspectedPart[]; // how /api/download will split the file
+  canSplit: boolean;
+  media?: MediaDetails;
+  torrent?: TorrentMetadata & { fileCount: number };
+}
+
+// Everything /api/download would learn about a URL before sending a byte of
+// it: one HEAD and a small sample, plus the playlist, manifest, .torrent
+// file or web page for streams, torrents and pages
+export class ContentInspector {
+  static async inspect(url: string, useCache: boolean = true): Promise<Inspection> {
+    if (TorrentParser.isMagnet(url)) {
+      return this.describeTorrent(url, url, TorrentParser.parseMagnet(url));
+    }
+
+    const { info } = await MetadataCache.detect(url, useCache);
+    const finalUrl = info.finalUrl || url;
+    const size = info.size > 0 ? info.size : null;
+
+    const inspection: Inspection = {
+      url,
+      finalUrl,
+      type: info.type,
+      filename: info.filename ?? null,
+      size,
+      mimeType: info.mimeType,
+      extension: info.extension,
+      confidence: info.confidence,
+      acceptsRanges: info.acceptsRanges ?? null,
+      etag: info.cacheHeaders?.['etag'] ?? null,
+      lastModified: info.cacheHeaders?.['last-modified'] ?? null,
+      parts: size ? FileSplitter.splitFile(size).map(({ partNumber, size }) => ({ partNumber, size })) : [],
+      canSplit: info.acceptsRanges !== false,
+    };
+
+    if (info.type === 'torrent') {
+      return this.describeTorrent(url, finalUrl, await TorrentParser.fetchTorrent(url));
+    }
+
+    if (info.type === 'hls') {
+      const playlist = await HlsDownloader.fetchPlaylist(url);
+      inspection.finalUrl = playlist.url;
+      inspection.media = playlist.type === 'master'
+        ? { kind: 'hls_master', variants: playlist.variants }
+        : {
+          kind: 'hls_media',
+          segmentCount: playlist.segments.length,
+          duration: playlist.totalDuration,
+          isLive: playlist.isLive,
+        };
+    }
+
+    if (info.type === 'dash') {
+      const manifest = await DashDownloader.fetchManifest(url);
+      inspection.finalUrl = manifest.url;
+      inspection.media = { kind: 'dash', ...DashDownloader.describe(manifest) };
+    }
+
+    if (info.type === 'page') {
+      inspection.media = { kind: 'page', candidates: await MediaExtractor.fromPage(url) };
+    }
+
+    // Streams are saved as one file whose size only the segments know
+    if (info.type === 'hls' || info.type === 'dash') {
+      inspection.filename = null;
+      inspection.size = null;
+      inspection.parts = [];
+    }
+
+    return inspection;
+  }
+
+  private static describeTorrent(url: string, finalUrl: string, metadata: TorrentMetadata): Inspection {
+    return {
+      url,
+      finalUrl,
+      type: 'torrent',
+      filename: metadata.name,
+      size: metadata.totalSize,
+      mimeType: 'application/x-bittorrent',
+      extension: 'torrent',
+      confidence: 'medium',
+      acceptsRanges: null,
+      etag: null,
+      lastModified: null,
+      // Torrents are handed to a torrent client, never split by us
+      parts: [],
+      canSplit: false,
+      torrent: {
+        ...metadata,
+        fileCount: metadata.files.length,
+        files: metadata.files.slice(0, MAX_TORRENT_FILES_LISTED),
+      },
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,257 @@
+import { StreamPipeline } from './streamPipeline';
+import type { ContentType } from './contentDetector';
+
+const SAMPLE_SIZE = 4096; // 4KB covers every signature below
+const SAMPLE_TIMEOUT = 15000; // 15 seconds
+
+// high: an unambiguous binary signature
+// medium: a signature shared with related formats, or a text marker
+// low: a guess from headers or a weak pattern
+export type SniffConfidence = 'high' | 'medium' | 'low';
+
+export interface ContentSample {
+  data: Uint8Array;
+  acceptsRanges: boolean;
+}
+
+export interface SniffResult {
+  type: ContentType;
+  mimeType: string;
+  extension: string;
+  confidence: SniffConfidence;
+}
+
+// Canonical extensions for MIME types a server may send without a signature match
+const MIME_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'video/x-matroska': 'mkv',
+  'video/x-msvideo': 'avi',
+  'video/x-flv': 'flv',
+  'video/mp2t': 'ts',
+  'video/ogg': 'ogv',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'weba',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/x-7z-compressed': '7z',
+  'application/vnd.rar': 'rar',
+  'application/x-rar-compressed': 'rar',
+  'application/gzip': 'gz',
+  'application/x-gzip': 'gz',
+  'application/x-bittorrent': 'torrent',
+  'application/vnd.apple.mpegurl': 'm3u8',
+  'application/x-mpegurl': 'm3u8',
+  'application/dash+xml': 'mpd',
+  'application/json': 'json',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'application/xhtml+xml': 'xhtml',
+};
+
+// ISO base media brands, read from the ftyp box at offset 4
+const FTYP_BRANDS: Record<string, Omit<SniffResult, 'confidence'>> = {
+  'qt  ': { type: 'video', mimeType: 'video/quicktime', extension: 'mov' },
+  'M4A ': { type: 'audio', mimeType: 'audio/mp4', extension: 'm4a' },
+  'M4B ': { type: 'audio', mimeType: 'audio/mp4', extension: 'm4b' },
+  'M4V ': { type: 'video', mimeType: 'video/x-m4v', extension: 'm4v' },
+  'avif': { type: 'image', mimeType: 'image/avif', extension: 'avif' },
+  'heic': { type: 'image', mimeType: 'image/heic', extension: 'heic' },
+  'mif1': { type: 'image', mimeType: 'image/heif', extension: 'heif' },
+};
+
+function startsWith(data: Uint8Array, signature: number[], offset: number = 0): boolean {
+  if (data.length < offset + signature.length) return false;
+  return signature.every((byte, i) => data[offset + i] === byte);
+}
+
+function ascii(data: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...Array.from(data.subarray(start, end)));
+}
+
+function contains(data: Uint8Array, marker: string): boolean {
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength).includes(marker, 0, 'latin1');
+}
+
+export class ContentSniffer {
+  // Asks for the first few KB only; if the server ignores Range the stream is
+  // cancelled as soon as enough bytes have arrived. A 206 also tells us the
+  // server can serve parts of the file
+  static async fetchSample(url: string, signal?: AbortSignal): Promise<ContentSample> {
+    const response = await StreamPipeline.fromUpstream(url, {
+      headers: { Range: `bytes=0-${SAMPLE_SIZE - 1}` },
+      signal,
+      timeout: SAMPLE_TIMEOUT,
+    });
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    try {
+      while (received < SAMPLE_SIZE) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.byteLength;
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined);
+    }
+
+    return {
+      data: Buffer.concat(chunks).subarray(0, SAMPLE_SIZE),
+      acceptsRanges: response.status === 206,
+    };
+  }
+
+  static sniff(data: Uint8Array): SniffResult | null {
+    // ISO base media (MP4, MOV, M4A, ...): size, then "ftyp", then the major brand
+    if (ascii(data, 4, 8) === 'ftyp') {
+      const brand = FTYP_BRANDS[ascii(data, 8, 12)];
+      return brand
+        ? { ...brand, confidence: 'high' }
+        : { type: 'video', mimeType: 'video/mp4', extension: 'mp4', confidence: 'high' };
+    }
+
+    // EBML header; WebM declares its DocType within the first few bytes
+    if (startsWith(data, [0x1a, 0x45, 0xdf, 0xa3])) {
+      return contains(data.subarray(0, 64), 'webm')
+        ? { type: 'video', mimeType: 'video/webm', extension: 'webm', confidence: 'high' }
+        : { type: 'video', mimeType: 'video/x-matroska', extension: 'mkv', confidence: 'high' };
+    }
+
+    // RIFF containers carry their form type at offset 8
+    if (ascii(data, 0, 4) === 'RIFF') {
+      switch (ascii(data, 8, 12)) {
+        case 'AVI ':
+          return { type: 'video', mimeType: 'video/x-msvideo', extension: 'avi', confidence: 'high' };
+        case 'WAVE':
+          return { type: 'audio', mimeType: 'audio/wav', extension: 'wav', confidence: 'high' };
+        case 'WEBP':
+          return { type: 'image', mimeType: 'image/webp', extension: 'webp', confidence: 'high' };
+      }
+    }
+
+    if (startsWith(data, [0x46, 0x4c, 0x56, 0x01])) {
+      return { type: 'video', mimeType: 'video/x-flv', extension: 'flv', confidence: 'high' };
+    }
+
+    if (ascii(data, 0, 4) === 'fLaC') {
+      return { type: 'audio', mimeType: 'audio/flac', extension: 'flac', confidence: 'high' };
+    }
+
+    // Ogg pages name their codec in the first packet
+    if (ascii(data, 0, 4) === 'OggS') {
+      const header = data.subarray(0, 128);
+      if (contains(header, 'OpusHead')) {
+        return { type: 'audio', mimeType: 'audio/ogg', extension: 'opus', confidence: 'high' };
+      }
+      if (contains(header, 'theora')) {
+        return { type: 'video', mimeType: 'video/ogg', extension: 'ogv', confidence: 'high' };
+      }
+      if (contains(header, 'vorbis') || contains(header, 'FLAC')) {
+        return { type: 'audio', mimeType: 'audio/ogg', extension: 'ogg', confidence: 'high' };
+      }
+      return { type: 'audio', mimeType: 'audio/ogg', extension: 'ogg', confidence: 'medium' };
+    }
+
+    // An ID3 tag usually precedes MP3, but AAC streams can carry one too
+    if (ascii(data, 0, 3) === 'ID3') {
+      return { type: 'audio', mimeType: 'audio/mpeg', extension: 'mp3', confidence: 'medium' };
+    }
+
+    // MPEG audio frame sync: 11 set bits, layer III
+    if (data.length >= 2 && data[0] === 0xff && (data[1] & 0xe6) === 0xe2) {
+      return { type: 'audio', mimeType: 'audio/mpeg', extension: 'mp3', confidence: 'low' };
+    }
+
+    if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+      return { type: 'image', mimeType: 'image/png', extension: 'png', confidence: 'high' };
+    }
+
+    if (startsWith(data, [0xff, 0xd8, 0xff])) {
+      return { type: 'image', mimeType: 'image/jpeg', extension: 'jpg', confidence: 'high' };
+    }
+
+    if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') {
+      return { type: 'image', mimeType: 'image/gif', extension: 'gif', confidence: 'high' };
+    }
+
+    if (ascii(data, 0, 5) === '%PDF-') {
+      return { type: 'file', mimeType: 'application/pdf', extension: 'pdf', confidence: 'high' };
+    }
+
+    // Local file header, empty archive or spanned archive. DOCX, JAR, APK and
+    // friends are ZIPs too, hence only medium confidence
+    if (startsWith(data, [0x50, 0x4b, 0x03, 0x04]) || startsWith(data, [0x50, 0x4b, 0x05, 0x06]) || startsWith(data, [0x50, 0x4b, 0x07, 0x08])) {
+      return { type: 'file', mimeType: 'application/zip', extension: 'zip', confidence: 'medium' };
+    }
+
+    if (startsWith(data, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+      return { type: 'file', mimeType: 'application/x-7z-compressed', extension: '7z', confidence: 'high' };
+    }
+
+    // RAR 4.x ends the marker with 0x00, RAR 5 with 0x01 0x00
+    if (startsWith(data, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07])) {
+      return { type: 'file', mimeType: 'application/vnd.rar', extension: 'rar', confidence: 'high' };
+    }
+
+    if (startsWith(data, [0x1f, 0x8b, 0x08])) {
+      return { type: 'file', mimeType: 'application/gzip', extension: 'gz', confidence: 'high' };
+    }
+
+    // A torrent is a bencoded dict; keys are sorted, so the first one is one of these
+    const head = ascii(data, 0, 64);
+    if (/^d\d+:(announce|announce-list|comment|created by|creation date|encoding|info|url-list)/.test(head)) {
+      return { type: 'torrent', mimeType: 'application/x-bittorrent', extension: 'torrent', confidence: 'high' };
+    }
+
+    // Text manifests, allowing for a UTF-8 BOM and leading whitespace
+    const text = new TextDecoder().decode(data.subarray(0, 512)).replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('#EXTM3U')) {
+      return { type: 'hls', mimeType: 'application/vnd.apple.mpegurl', extension: 'm3u8', confidence: 'medium' };
+    }
+    if (/<MPD[\s>]/.test(text)) {
+      return { type: 'dash', mimeType: 'application/dash+xml', extension: 'mpd', confidence: 'medium' };
+    }
+    // Web pages, whose media MediaExtractor can list
+    if (/^(<!doctype html|<html[\s>]|<head[\s>])/i.test(text)) {
+      return { type: 'page', mimeType: 'text/html', extension: 'html', confidence: 'medium' };
+    }
+
+    return null;
+  }
+
+  // Fallback when no signature matched: trust the server's content-type, weakly
+  static fromMimeType(contentType: unknown): SniffResult | null {
+    const mimeType = String(contentType ?? '').split(';')[0].trim().toLowerCase();
+    if (!mimeType || mimeType === 'application/octet-stream') return null;
+
+    const extension = MIME_EXTENSIONS[mimeType] || 'bin';
+    let type: ContentType = 'file';
+    if (mimeType.startsWith('video/')) type = 'video';
+    else if (mimeType.startsWith('audio/')) type = 'audio';
+    else if (mimeType.startsWith('image/')) type = 'image';
+    else if (mimeType === 'application/x-bittorrent') type = 'torrent';
+    else if (mimeType.includes('mpegurl')) type = 'hls';
+    else if (mimeType === 'application/dash+xml') type = 'dash';
+    else if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') type = 'page';
+
+    return { type, mimeType, extension, confidence: 'low' };
+  }
+}
\ No newline at end of file
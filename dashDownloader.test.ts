@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DashDownloader } from './dashDownloader';
+import { DownloadError } from './downloadError';
+import { UrlGuard } from './urlGuard';
+
+const MANIFEST_URL = 'https://cdn.example.com/vod/manifest.mpd';
+const METADATA = 'http://169.254.169.254/latest/';
+
+const manifest = (period: string, attributes = 'mediaPresentationDuration="PT10S"') =>
+  `<?xml version="1.0"?><MPD type="static" ${attributes}><Period>${period}</Period></MPD>`;
+
+const representation = (content: string) =>
+  `<AdaptationSet mimeType="video/mp4"><Representation id="v1" bandwidth="1000000" width="1280" height="720">${content}</Representation></AdaptationSet>`;
+
+function parseError(xml: string): unknown {
+  try {
+    DashDownloader.parseManifest(xml, MANIFEST_URL);
+  } catch (error) {
+    return error;
+  }
+  return null;
+}
+
+describe('DashDownloader.parseManifest', () => {
+  it('resolves template segments against the BaseURL', () => {
+    const { tracks } = DashDownloader.parseManifest(manifest(representation(
+      '<BaseURL>video/</BaseURL><SegmentTemplate initialization="init.mp4" media="seg-$Number$.m4s" duration="5" startNumber="1"/>'
+    )), MANIFEST_URL);
+
+    expect(tracks[0].initialization?.url).toBe('https://cdn.example.com/vod/video/init.mp4');
+    expect(tracks[0].segments.map(segment => segment.url)).toEqual([
+      'https://cdn.example.com/vod/video/seg-1.m4s',
+      'https://cdn.example.com/vod/video/seg-2.m4s',
+    ]);
+  });
+
+  it.each([
+    ['a BaseURL', `<BaseURL>${METADATA}</BaseURL><SegmentBase indexRange="100-199"/>`],
+    ['a loopback BaseURL', '<BaseURL>http://127.0.0.1:8080/</BaseURL>'],
+    ['a media template', `<SegmentTemplate media="${METADATA}$Number$" duration="5"/>`],
+    ['an initialization template', `<SegmentTemplate initialization="${METADATA}init" media="seg-$Number$.m4s" duration="5"/>`],
+    ['a segment list entry', `<SegmentList><SegmentURL media="${METADATA}seg.m4s"/></SegmentList>`],
+    ['a BaseURL using another scheme', '<BaseURL>file:///etc/passwd</BaseURL>'],
+  ])('refuses %s pointing at a private address or scheme', (_, content) => {
+    expect(UrlGuard.fromError(parseError(manifest(representation(content))))).not.toBeNull();
+  });
+
+  // Each of these manifests is well under 1KB
+  it.each([
+    ['a short segment duration', representation('<SegmentTemplate media="$Number$.m4s" duration="1" timescale="1000000"/>'), 'mediaPresentationDuration="PT1000000S"'],
+    ['a large timeline repeat', representation('<SegmentTemplate media="$Time$.m4s"><SegmentTimeline><S t="0" d="1" r="1000000000"/></SegmentTimeline></SegmentTemplate>')],
+    ['a repeat to the end of a long period', representation('<SegmentTemplate media="$Time$.m4s" timescale="1000"><SegmentTimeline><S d="1" r="-1"/></SegmentTimeline></SegmentTemplate>'), 'mediaPresentationDuration="PT100000S"'],
+    ['many timeline entries', representation(`<SegmentTemplate media="$Time$.m4s"><SegmentTimeline>${'<S d="1" r="60000"/>'.repeat(10)}</SegmentTimeline></SegmentTemplate>`)],
+    ['many representations', `<AdaptationSet mimeType="video/mp4"><SegmentTemplate media="$RepresentationID$-$Number$.m4s" duration="1"/>${
+      Array.from({ length: 30 }, (_, i) => `<Representation id="r${i}" bandwidth="1000"/>`).join('')
+    }</AdaptationSet>`, 'mediaPresentationDuration="PT10000S"'],
+  ])('refuses too many segments from %s', (_, period, attributes?: string) => {
+    const started = Date.now();
+    const error = parseError(manifest(period, attributes));
+
+    expect(error).toBeInstanceOf(DownloadError);
+    expect((error as DownloadError).code).toBe('unsupported_content');
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,502 @@
+import { UrlGuard } from './urlGuard';
+import { StreamPipeline } from './streamPipeline';
+import { DownloadError } from './downloadError';
+import { RangeNotSupportedError } from './rangeRequest';
+
+const MANIFEST_MAX_SIZE = 5 * 1024 * 1024; // 5MB
+const MANIFEST_TIMEOUT = 30000; // 30 seconds
+const MAX_SEGMENTS = 100000; // in one manifest; a few bytes of template can otherwise describe billions
+
+export type DashTrackKind = 'video' | 'audio' | 'text';
+
+export interface DashRepresentation {
+  id: string;
+  kind: DashTrackKind;
+  mimeType: string;
+  codecs?: string;
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  frameRate?: string;
+  audioSamplingRate?: string;
+  lang?: string;
+  segmentCount: number;
+}
+
+export interface DashSegment {
+  url: string;
+  range?: string; // "start-end", inclusive; "start-" runs to the end of the file and is streamed
+}
+
+export interface DashTrack {
+  representation: DashRepresentation;
+  initialization?: DashSegment;
+  index?: DashSegment; // SegmentBase: the sidx box that splits the rest of the file
+  segments: DashSegment[];
+}
+
+export interface DashManifest {
+  url: string;
+  isLive: boolean;
+  duration: number | null; // seconds
+  tracks: DashTrack[];
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+// Just enough XML for MPD manifests: elements, attributes and text
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const cleaned = xml
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '');
+
+  const decode = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+  const tokenPattern = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=\/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokenPattern.exec(cleaned)) !== null) {
+    const [, closing, rawName, rawAttributes, selfClosing, text] = token;
+    const parent = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      parent.text += decode(text);
+      continue;
+    }
+
+    // Namespace prefixes are irrelevant for MPDs
+    const name = rawName.includes(':') ? rawName.split(':').pop()! : rawName;
+
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(rawAttributes)) !== null) {
+      element.attributes[attribute[1]] = decode(attribute[2] ?? attribute[3]);
+    }
+
+    parent.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root;
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(node => node.name === name);
+}
+
+function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(node => node.name === name) || [];
+}
+
+export class DashDownloader {
+  static isManifestUrl(url: string): boolean {
+    try {
+      return new URL(url).pathname.toLowerCase().endsWith('.mpd');
+    } catch {
+      return false;
+    }
+  }
+
+  static isManifestContentType(contentType: unknown): boolean {
+    return String(contentType ?? '').toLowerCase().includes('dash+xml');
+  }
+
+  static async fetchManifest(url: string): Promise<DashManifest> {
+    const response = await UrlGuard.client.get<string>(url, {
+      responseType: 'text',
+      maxContentLength: MANIFEST_MAX_SIZE,
+      timeout: MANIFEST_TIMEOUT,
+    });
+
+    const finalUrl = response.request?.res?.responseUrl || url;
+    return this.parseManifest(response.data, finalUrl);
+  }
+
+  // ISO 8601 durations as used by MPDs, e.g. PT1H2M3.5S
+  static parseDuration(value?: string): number | null {
+    const match = value?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/);
+    if (!match) return null;
+
+    const [, days, hours, minutes, seconds] = match;
+    return (parseInt(days || '0', 10) * 86400)
+      + (parseInt(hours || '0', 10) * 3600)
+      + (parseInt(minutes || '0', 10) * 60)
+      + parseFloat(seconds || '0');
+  }
+
+  static parseManifest(xml: string, manifestUrl: string): DashManifest {
+    const mpd = child(parseXml(xml), 'MPD');
+    if (!mpd) {
+      throw new DownloadError('unsupported_content', 'Not a DASH manifest');
+    }
+
+    const isLive = mpd.attributes.type === 'dynamic';
+    const duration = this.parseDuration(mpd.attributes.mediaPresentationDuration);
+    const mpdBase = this.resolveBase(mpd, manifestUrl);
+
+    // Only the first period is downloaded; multi-period manifests are usually ad breaks
+    const period = child(mpd, 'Period');
+    if (!period) {
+      throw new DownloadError('unsupported_content', 'DASH manifest has no periods');
+    }
+
+    const periodBase = this.resolveBase(period, mpdBase);
+    const periodDuration = this.parseDuration(period.attributes.duration) ?? duration;
+    const tracks: DashTrack[] = [];
+    let segmentCount = 0;
+
+    for (const adaptationSet of children(period, 'AdaptationSet')) {
+      const setBase = this.resolveBase(adaptationSet, periodBase);
+
+      for (const representation of children(adaptationSet, 'Representation')) {
+        const base = this.resolveBase(representation, setBase);
+        const info = this.describeRepresentation(adaptationSet, representation);
+
+        const segmentTemplate = this.mergeTemplates([
+          child(period, 'SegmentTemplate'),
+          child(adaptationSet, 'SegmentTemplate'),
+          child(representation, 'SegmentTemplate'),
+        ]);
+        const segmentList = child(representation, 'SegmentList') || child(adaptationSet, 'SegmentList');
+        const segmentBase = child(representation, 'SegmentBase') || child(adaptationSet, 'SegmentBase') || child(period, 'SegmentBase');
+
+        let track: Omit<DashTrack, 'representation'>;
+        if (segmentTemplate) {
+          track = this.templateSegments(segmentTemplate, info, base, periodDuration);
+        } else if (segmentList) {
+          track = this.listSegments(segmentList, base);
+        } else if (base !== manifestUrl) {
+          // SegmentBase (or a bare BaseURL): the representation is one file
+          track = this.baseSegments(segmentBase, base);
+        } else {
+          continue;
+        }
+
+        // Each track is checked before its segments are built, the manifest as they add up
+        segmentCount += track.segments.length;
+        this.assertSegmentCount(segmentCount);
+        tracks.push({
+          ...track,
+          representation: { ...info, segmentCount: track.segments.length },
+        });
+      }
+    }
+
+    return { url: manifestUrl, isLive, duration, tracks };
+  }
+
+  static describe(manifest: DashManifest) {
+    const byBandwidth = (a: DashRepresentation, b: DashRepresentation) => b.bandwidth - a.bandwidth;
+    const representations = manifest.tracks.map(track => track.representation);
+
+    return {
+      isLive: manifest.isLive,
+      duration: manifest.duration,
+      video: representations.filter(rep => rep.kind === 'video').sort(byBandwidth),
+      audio: representations.filter(rep => rep.kind === 'audio').sort(byBandwidth),
+    };
+  }
+
+  static getExtension(representation: DashRepresentation): string {
+    if (representation.mimeType.includes('webm')) return 'webm';
+    return representation.kind === 'audio' ? 'm4a' : 'mp4';
+  }
+
+  // Initialization segment followed by every media segment, fetched as the
+  // client reads. Open-ended ranges are streamed rather than held in memory
+  static streamTrack(track: DashTrack, signal?: AbortSignal): ReadableStream<Uint8Array> {
+    const queue = [
+      ...(track.initialization ? [track.initialization] : []),
+      ...(track.index ? [track.index] : []),
+      ...track.segments,
+    ];
+    let index = 0;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+    return new ReadableStream<Uint8Array>({
+      // Each pull has to enqueue something or close, or the stream stalls
+      pull: async (controller) => {
+        for (;;) {
+          if (reader) {
+            const { done, value } = await reader.read();
+            if (!done) {
+              controller.enqueue(value);
+              return;
+            }
+            reader = null;
+          }
+
+          if (index >= queue.length) {
+            controller.close();
+            return;
+          }
+
+          const segment = queue[index++];
+          if (segment.range?.endsWith('-')) {
+            const response = await StreamPipeline.fromUpstream(segment.url, {
+              signal,
+              headers: { Range: `bytes=${segment.range}` },
+            });
+            // A source that ignores the range would repeat what was already sent
+            if (response.status !== 206 && !segment.range.startsWith('0-')) {
+              await response.body.cancel();
+              throw new RangeNotSupportedError();
+            }
+            reader = response.body.getReader();
+            continue;
+          }
+
+          const data = await StreamPipeline.fetchBytes(segment.url, {
+            range: segment.range ? `bytes=${segment.range}` : undefined,
+            signal,
+          });
+
+          // The index lists the subsegments; without a usable one the rest of
+          // the file is streamed as it is
+          if (segment === track.index) {
+            const subsegments = this.parseSidx(data, parseInt(segment.range!, 10));
+            if (subsegments) {
+              queue.splice(index, queue.length - index, ...subsegments.map(range => ({ url: segment.url, range })));
+            }
+          }
+
+          controller.enqueue(data);
+          return;
+        }
+      },
+      cancel: async () => {
+        await reader?.cancel();
+      },
+    });
+  }
+
+  // Byte ranges ("start-end") of the media subsegments listed by a sidx box
+  // found at `offset` in the file; null for anything but a flat index
+  static parseSidx(data: Buffer, offset: number): string[] | null {
+    if (data.length < 32 || data.toString('latin1', 4, 8) !== 'sidx') return null;
+
+    const boxSize = data.readUInt32BE(0);
+    const version = data[8];
+    if (boxSize < 8 || boxSize > data.length) return null;
+
+    // Version 1 widens the earliest presentation time and first offset to 64 bits
+    let position = 20;
+    const firstOffset = version === 0
+      ? data.readUInt32BE(position + 4)
+      : Number(data.readBigUInt64BE(position + 8));
+    position += version === 0 ? 8 : 16;
+
+    const referenceCount = data.readUInt16BE(position + 2);
+    position += 4;
+    if (position + referenceCount * 12 > boxSize) return null;
+
+    const ranges: string[] = [];
+    let start = offset + boxSize + firstOffset;
+    for (let i = 0; i < referenceCount; i++) {
+      const reference = data.readUInt32BE(position + i * 12);
+      // Set top bit: the reference points at another sidx, not at media
+      if (reference & 0x80000000) return null;
+
+      const size = reference & 0x7fffffff;
+      ranges.push(`${start}-${start + size - 1}`);
+      start += size;
+    }
+    return ranges;
+  }
+
+  private static resolveBase(element: XmlElement, parentBase: string): string {
+    const baseUrl = child(element, 'BaseURL')?.text.trim();
+    return baseUrl ? this.resolveUrl(baseUrl, parentBase) : parentBase;
+  }
+
+  private static describeRepresentation(adaptationSet: XmlElement, representation: XmlElement): DashRepresentation {
+    const attribute = (name: string) => representation.attributes[name] ?? adaptationSet.attributes[name];
+    const mimeType = attribute('mimeType') || '';
+    const contentType = attribute('contentType') || mimeType.split('/')[0];
+
+    return {
+      id: representation.attributes.id,
+      kind: contentType === 'video' || contentType === 'audio' ? contentType : 'text',
+      mimeType,
+      codecs: attribute('codecs'),
+      bandwidth: parseInt(representation.attributes.bandwidth || '0', 10),
+      width: attribute('width') ? parseInt(attribute('width'), 10) : undefined,
+      height: attribute('height') ? parseInt(attribute('height'), 10) : undefined,
+      frameRate: attribute('frameRate'),
+      audioSamplingRate: attribute('audioSamplingRate'),
+      lang: adaptationSet.attributes.lang,
+      segmentCount: 0,
+    };
+  }
+
+  // Templates inherit attributes from Period and AdaptationSet
+  private static mergeTemplates(templates: Array<XmlElement | undefined>): XmlElement | undefined {
+    const present = templates.filter((template): template is XmlElement => !!template);
+    if (present.length === 0) return undefined;
+
+    return present.reduce((merged, template) => ({
+      name: 'SegmentTemplate',
+      attributes: { ...merged.attributes, ...template.attributes },
+      children: child(template, 'SegmentTimeline') ? template.children : merged.children,
+      text: '',
+    }));
+  }
+
+  private static fillTemplate(template: string, values: Record<string, string | number>): string {
+    return template
+      .replace(/\$(RepresentationID|Number|Bandwidth|Time)(?:%0(\d+)d)?\$/g, (_, name: string, width?: string) => {
+        const value = String(values[name]);
+        return width ? value.padStart(parseInt(width, 10), '0') : value;
+      })
+      .replace(/\$\$/g, '$');
+  }
+
+  private static templateSegments(
+    template: XmlElement,
+    representation: DashRepresentation,
+    base: string,
+    periodDuration: number | null
+  ): Omit<DashTrack, 'representation'> {
+    const timescale = parseInt(template.attributes.timescale || '1', 10);
+    const startNumber = parseInt(template.attributes.startNumber || '1', 10);
+    const values = { RepresentationID: representation.id, Bandwidth: representation.bandwidth };
+    const segments: DashSegment[] = [];
+
+    const media = template.attributes.media;
+    if (!media) {
+      throw new DownloadError('unsupported_content', `Representation ${representation.id} has no media template`);
+    }
+
+    const timeline = child(template, 'SegmentTimeline');
+    if (timeline) {
+      const entries = children(timeline, 'S');
+      const periodEnd = periodDuration !== null ? periodDuration * timescale : null;
+      let time = 0;
+      let number = startNumber;
+
+      entries.forEach((entry, index) => {
+        const d = parseInt(entry.attributes.d, 10);
+        let repeat = parseInt(entry.attributes.r || '0', 10);
+        time = entry.attributes.t !== undefined ? parseInt(entry.attributes.t, 10) : time;
+
+        // A negative repeat count runs until the next entry or the end of the period
+        if (repeat < 0) {
+          const next = entries[index + 1]?.attributes.t;
+          const end = next !== undefined ? parseInt(next, 10) : periodEnd;
+          if (end === null) {
+            throw new DownloadError('unsupported_content', 'Open-ended DASH timelines are not supported');
+          }
+          repeat = Math.ceil((end - time) / d) - 1;
+        }
+
+        this.assertSegmentCount(segments.length + repeat + 1);
+        for (let i = 0; i <= repeat; i++) {
+          segments.push({ url: this.resolveUrl(this.fillTemplate(media, { ...values, Number: number, Time: time }), base) });
+          time += d;
+          number++;
+        }
+      });
+    } else {
+      const duration = parseInt(template.attributes.duration || '0', 10);
+      if (!duration || periodDuration === null) {
+        throw new DownloadError('unsupported_content', 'Live DASH manifests without a timeline are not supported');
+      }
+
+      const count = Math.ceil((periodDuration * timescale) / duration);
+      this.assertSegmentCount(count);
+      for (let i = 0; i < count; i++) {
+        const number = startNumber + i;
+        segments.push({
+          url: this.resolveUrl(this.fillTemplate(media, { ...values, Number: number, Time: i * duration }), base),
+        });
+      }
+    }
+
+    const initialization = template.attributes.initialization;
+    return {
+      initialization: initialization
+        ? { url: this.resolveUrl(this.fillTemplate(initialization, values), base) }
+        : undefined,
+      segments,
+    };
+  }
+
+  // SegmentBase gives the byte ranges of the initialization segment and the
+  // sidx box; the media is whatever follows the index
+  private static baseSegments(segmentBase: XmlElement | undefined, base: string): Omit<DashTrack, 'representation'> {
+    const indexRange = segmentBase?.attributes.indexRange?.match(/^(\d+)-(\d+)$/);
+    const initializationRange = child(segmentBase, 'Initialization')?.attributes.range;
+
+    if (!indexRange) {
+      // Nothing says where the media starts: the file is sent as it is
+      return { segments: [{ url: base, range: '0-' }] };
+    }
+
+    const indexStart = parseInt(indexRange[1], 10);
+    const indexEnd = parseInt(indexRange[2], 10);
+    // Without an explicit range, everything before the index initializes the track
+    const initialization = initializationRange || (indexStart > 0 ? `0-${indexStart - 1}` : undefined);
+
+    return {
+      initialization: initialization ? { url: base, range: initialization } : undefined,
+      index: { url: base, range: `${indexStart}-${indexEnd}` },
+      segments: [{ url: base, range: `${indexEnd + 1}-` }],
+    };
+  }
+
+  private static listSegments(list: XmlElement, base: string): Omit<DashTrack, 'representation'> {
+    const initialization = child(list, 'Initialization');
+    const segmentUrls = children(list, 'SegmentURL');
+    this.assertSegmentCount(segmentUrls.length);
+
+    return {
+      initialization: initialization
+        ? {
+          url: initialization.attributes.sourceURL ? this.resolveUrl(initialization.attributes.sourceURL, base) : base,
+          range: initialization.attributes.range,
+        }
+        : undefined,
+      segments: segmentUrls.map(segment => ({
+        url: segment.attributes.media ? this.resolveUrl(segment.attributes.media, base) : base,
+        range: segment.attributes.mediaRange,
+      })),
+    };
+  }
+
+  // Every URL comes from the remote manifest, so each is held to the same
+  // rules as the link the user gave; host names are checked again on connect
+  private static resolveUrl(url: string, base: string): string {
+    let resolved: string;
+    try {
+      resolved = new URL(url, base).toString();
+    } catch {
+      throw new DownloadError('unsupported_content', 'DASH manifest has an invalid URL');
+    }
+    return UrlGuard.assertAllowedUrl(resolved).toString();
+  }
+
+  private static assertSegmentCount(count: number) {
+    if (!(count <= MAX_SEGMENTS)) {
+      throw new DownloadError('unsupported_content', `DASH manifests are limited to ${MAX_SEGMENTS} segments`);
+    }
+  }
+}
\ No newline at end of file
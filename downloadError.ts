@@ -0,0 +1,201 @@
+import { AxiosError } from 'axios';
+import { UrlGuard } from './urlGuard';
+import { RangeNotSupportedError } from './rangeRequest';
+
+// Stable identifiers clients can switch on; messages may change, codes may not
+export type DownloadErrorCode =
+  | 'invalid_request'
+  | 'invalid_url'
+  | 'blocked_url'
+  | 'invalid_part'
+  | 'unknown_variant'
+  | 'unsupported_content'
+  | 'job_not_found'
+  | 'history_mode_required'
+  | 'rate_limited'
+  | 'limit_reached'
+  | 'fast_locked'
+  | 'dns_failure'
+  | 'connection_failed'
+  | 'tls_error'
+  | 'upstream_timeout'
+  | 'upstream_not_found'
+  | 'upstream_forbidden'
+  | 'upstream_rate_limited'
+  | 'upstream_rejected'
+  | 'upstream_error'
+  | 'too_large'
+  | 'range_not_supported'
+  | 'internal_error';
+
+const ERROR_CODES: Record<DownloadErrorCode, { status: number; retryable: boolean }> = {
+  invalid_request: { status: 400, retryable: false },
+  invalid_url: { status: 400, retryable: false },
+  blocked_url: { status: 400, retryable: false },
+  invalid_part: { status: 400, retryable: false },
+  unknown_variant: { status: 400, retryable: false },
+  unsupported_content: { status: 422, retryable: false },
+  job_not_found: { status: 404, retryable: false },
+  history_mode_required: { status: 400, retryable: false },
+  rate_limited: { status: 429, retryable: true },
+  limit_reached: { status: 429, retryable: false },
+  fast_locked: { status: 403, retryable: false },
+  dns_failure: { status: 502, retryable: false },
+  connection_failed: { status: 502, retryable: true },
+  tls_error: { status: 502, retryable: false },
+  upstream_timeout: { status: 504, retryable: true },
+  upstream_not_found: { status: 404, retryable: false },
+  upstream_forbidden: { status: 403, retryable: false },
+  upstream_rate_limited: { status: 503, retryable: true },
+  upstream_rejected: { status: 502, retryable: false },
+  upstream_error: { status: 502, retryable: true },
+  too_large: { status: 413, retryable: false },
+  range_not_supported: { status: 502, retryable: false },
+  internal_error: { status: 500, retryable: false },
+};
+
+const CONNECTION_ERRORS = ['ECONNREFUSED', 'ECONNRESET', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ERR_SOCKET_CONNECTION_TIMEOUT'];
+const TIMEOUT_ERRORS = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+const SIZE_ERRORS = ['ERR_FR_MAX_BODY_LENGTH_EXCEEDED', 'ERR_FR_MAX_CONTENT_LENGTH_EXCEEDED'];
+
+export interface DownloadErrorOptions {
+  retryAfter?: number; // seconds
+  upstreamStatus?: number;
+  retryable?: boolean; // overrides the code's default
+  details?: Record<string, unknown>; // extra fields for the response body
+  cause?: unknown;
+}
+
+export class DownloadError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+  readonly upstreamStatus?: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(public readonly code: DownloadErrorCode, message: string, options: DownloadErrorOptions = {}) {
+    super(message);
+    this.name = 'DownloadError';
+    this.status = ERROR_CODES[code].status;
+    this.retryable = options.retryable ?? ERROR_CODES[code].retryable;
+    this.retryAfter = options.retryAfter;
+    this.upstreamStatus = options.upstreamStatus;
+    this.details = options.details;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+      ...(this.upstreamStatus !== undefined && { upstreamStatus: this.upstreamStatus }),
+      ...this.details,
+    };
+  }
+
+  headers(): Record<string, string> {
+    return this.retryAfter !== undefined ? { 'Retry-After': String(this.retryAfter) } : {};
+  }
+
+  // Turns whatever a fetch threw into a DownloadError. Axios wraps socket
+  // and TLS failures, so their codes are looked for down the cause chain
+  static from(error: unknown): DownloadError {
+    if (error instanceof DownloadError) return error;
+
+    const guardError = UrlGuard.fromError(error);
+    if (guardError) {
+      const code = guardError.reason === 'host_not_resolved' ? 'dns_failure'
+        : guardError.reason === 'blocked_address' ? 'blocked_url'
+        : 'invalid_url';
+      return new DownloadError(code, guardError.message, { details: { reason: guardError.reason }, cause: error });
+    }
+
+    if (error instanceof RangeNotSupportedError) {
+      return new DownloadError('range_not_supported', error.message, { cause: error });
+    }
+
+    const response = error instanceof AxiosError ? error.response : undefined;
+    if (response) {
+      return this.fromUpstreamStatus(response.status, response.headers?.['retry-after'], error);
+    }
+
+    const code = this.errorCode(error);
+    if ((code && SIZE_ERRORS.includes(code)) || (error instanceof AxiosError && /max(Content|Body)Length/.test(error.message))) {
+      return new DownloadError('too_large', 'The source sent more data than this download allows', { cause: error });
+    }
+    if (code && TIMEOUT_ERRORS.includes(code)) {
+      return new DownloadError('upstream_timeout', 'The source server took too long to respond', { cause: error });
+    }
+    if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+      // EAI_AGAIN is a resolver hiccup rather than a missing host
+      return new DownloadError('dns_failure', 'The source host name could not be resolved', {
+        retryable: code === 'EAI_AGAIN',
+        cause: error,
+      });
+    }
+    if (code && (code.startsWith('CERT_') || code.startsWith('ERR_TLS') || code.startsWith('ERR_SSL') || code.includes('SELF_SIGNED') || code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE')) {
+      return new DownloadError('tls_error', 'The source server\'s TLS certificate could not be verified', { cause: error });
+    }
+    if ((code && CONNECTION_ERRORS.includes(code)) || (error instanceof Error && error.message === 'socket hang up')) {
+      return new DownloadError('connection_failed', 'The connection to the source server failed', { cause: error });
+    }
+
+    return new DownloadError('internal_error', 'Download failed', { cause: error });
+  }
+
+  static fromUpstreamStatus(status: number, retryAfter?: unknown, cause?: unknown): DownloadError {
+    const options = { upstreamStatus: status, cause };
+
+    if (status === 404 || status === 410) {
+      return new DownloadError('upstream_not_found', 'The file was not found on the source server', options);
+    }
+    if (status === 401 || status === 403) {
+      return new DownloadError('upstream_forbidden', 'The source server refused access to this file', options);
+    }
+    if (status === 429) {
+      return new DownloadError('upstream_rate_limited', 'The source server is rate limiting downloads', {
+        ...options,
+        retryAfter: this.parseRetryAfter(retryAfter) ?? 60,
+      });
+    }
+    if (status === 408 || status === 504) {
+      return new DownloadError('upstream_timeout', 'The source server took too long to respond', options);
+    }
+    if (status === 413) {
+      return new DownloadError('too_large', 'The source server says the request is too large', options);
+    }
+    if (status >= 500) {
+      return new DownloadError('upstream_error', `The source server failed with status ${status}`, {
+        ...options,
+        retryAfter: this.parseRetryAfter(retryAfter),
+      });
+    }
+    return new DownloadError('upstream_rejected', `The source server responded with status ${status}`, options);
+  }
+
+  // Retry-After is either seconds or an HTTP date
+  static parseRetryAfter(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const text = String(value).trim();
+    if (/^\d+$/.test(text)) return parseInt(text, 10);
+
+    const date = Date.parse(text);
+    return Number.isFinite(date) ? Math.max(0, Math.ceil((date - Date.now()) / 1000)) : undefined;
+  }
+
+  private static errorCode(error: unknown): string | undefined {
+    let current = error;
+    for (let depth = 0; current && depth < 5; depth++) {
+      const code = (current as { code?: unknown }).code;
+      if (typeof code === 'string' && code !== 'ERR_BAD_REQUEST' && code !== 'ERR_BAD_RESPONSE' && code !== 'ERR_NETWORK') {
+        return code;
+      }
+      current = (current as { cause?: unknown }).cause;
+    }
+    return undefined;
+  }
+}
\ No newline at end of file
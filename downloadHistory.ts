@@ -0,0 +1,205 @@
+import { PrismaClient } from '@prisma/client';
+import type { DownloadHistory as DownloadHistoryRow } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const HISTORY_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_EXPORT_ENTRIES = 10000;
+export const MAX_SYNC_ENTRIES = 500; // local entries accepted, and returned, per sync
+
+export interface HistoryEntry {
+  id: string;
+  url: string;
+  type: string;
+  host: string;
+  timestamp: string;
+}
+
+// What SessionManager keeps in localStorage
+export interface LocalHistoryEntry {
+  url: string;
+  type: string;
+  timestamp: string;
+}
+
+export interface HistoryFilter {
+  type?: string;
+  from?: Date;
+  to?: Date;
+  domain?: string; // matches the host and its subdomains
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export class DownloadHistory {
+  static hostOf(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch {
+      return '';
+    }
+  }
+
+  // ?type=video&from=2024-01-01&to=2024-01-31&domain=example.com; a date-only
+  // `to` includes that whole day
+  static parseFilter(params: URLSearchParams): HistoryFilter | string {
+    const filter: HistoryFilter = {};
+
+    const type = params.get('type');
+    if (type) filter.type = type;
+
+    for (const key of ['from', 'to'] as const) {
+      const value = params.get(key);
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) return `Invalid ${key} date`;
+      if (key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setTime(date.getTime() - 1);
+      }
+      filter[key] = date;
+    }
+
+    const domain = params.get('domain')?.trim().toLowerCase().replace(/^\*?\./, '');
+    if (domain) filter.domain = domain;
+
+    return filter;
+  }
+
+  static async record(sessionId: string, url: string, type: string): Promise<void> {
+    await prisma.downloadHistory.create({
+      data: {
+        sessionId,
+        url,
+        host: this.hostOf(url),
+        type,
+        mode: 'history',
+        timestamp: new Date(),
+      },
+    });
+  }
+
+  static async list(sessionId: string, filter: HistoryFilter, page: number, pageSize: number = HISTORY_PAGE_SIZE): Promise<HistoryPage> {
+    const size = Math.min(Math.max(1, Math.floor(pageSize) || HISTORY_PAGE_SIZE), MAX_PAGE_SIZE);
+    const current = Math.max(1, Math.floor(page) || 1);
+    const where = this.where(sessionId, filter);
+
+    const [rows, total] = await Promise.all([
+      prisma.downloadHistory.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        skip: (current - 1) * size,
+        take: size,
+      }),
+      prisma.downloadHistory.count({ where }),
+    ]);
+
+    return { entries: rows.map(row => this.serialize(row)), total, page: current, pageSize: size };
+  }
+
+  // Newest first, capped so one export cannot read the whole table
+  static async export(sessionId: string, filter: HistoryFilter, limit: number = MAX_EXPORT_ENTRIES): Promise<HistoryEntry[]> {
+    const rows = await prisma.downloadHistory.findMany({
+      where: this.where(sessionId, filter),
+      orderBy: { timestamp: 'desc' },
+      take: limit,
+    });
+    return rows.map(row => this.serialize(row));
+  }
+
+  static async remove(sessionId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.downloadHistory.deleteMany({ where: { id, sessionId } });
+    return count > 0;
+  }
+
+  static async clear(sessionId: string): Promise<number> {
+    const { count } = await prisma.downloadHistory.deleteMany({ where: { sessionId } });
+    return count;
+  }
+
+  // Adds local entries the server has not seen and returns the newest
+  // entries for the client to keep. Entries match on URL and timestamp,
+  // which the client copies from the server, so a synced entry is never added twice
+  static async merge(sessionId: string, local: unknown): Promise<{ added: number; entries: HistoryEntry[] }> {
+    const candidates = (Array.isArray(local) ? local : [])
+      .slice(-MAX_SYNC_ENTRIES)
+      .filter((entry): entry is LocalHistoryEntry =>
+        !!entry &&
+        typeof entry.url === 'string' && entry.url.length > 0 && entry.url.length <= 8192 &&
+        typeof entry.type === 'string' && entry.type.length <= 32 &&
+        typeof entry.timestamp === 'string' && !isNaN(Date.parse(entry.timestamp)) &&
+        Date.parse(entry.timestamp) <= Date.now()
+      );
+
+    let added = 0;
+    if (candidates.length > 0) {
+      const existing = await prisma.downloadHistory.findMany({
+        where: { sessionId, timestamp: { in: candidates.map(entry => new Date(entry.timestamp)) } },
+        select: { url: true, timestamp: true },
+      });
+      const known = new Set(existing.map(row => `${row.timestamp.getTime()} ${row.url}`));
+
+      const missing = candidates.filter(entry => {
+        const key = `${Date.parse(entry.timestamp)} ${entry.url}`;
+        if (known.has(key)) return false;
+        known.add(key);
+        return true;
+      });
+
+      if (missing.length > 0) {
+        await prisma.$transaction(missing.map(entry => prisma.downloadHistory.create({
+          data: {
+            sessionId,
+            url: entry.url,
+            host: this.hostOf(entry.url),
+            type: entry.type,
+            mode: 'history',
+            timestamp: new Date(entry.timestamp),
+          },
+        })));
+      }
+      added = missing.length;
+    }
+
+    return { added, entries: await this.export(sessionId, {}, MAX_SYNC_ENTRIES) };
+  }
+
+  static toCsv(entries: HistoryEntry[]): string {
+    // Quotes every field, and defuses cells a spreadsheet would run as a formula
+    const cell = (value: string) => `"${(/^[=+\-@\t\r]/.test(value) ? `'${value}` : value).replace(/"/g, '""')}"`;
+    const rows = entries.map(entry => [entry.timestamp, entry.type, entry.host, entry.url].map(cell).join(','));
+    return ['timestamp,type,host,url', ...rows].join('\r\n') + '\r\n';
+  }
+
+  private static where(sessionId: string, filter: HistoryFilter) {
+    return {
+      sessionId,
+      ...(filter.type && { type: filter.type }),
+      ...((filter.from || filter.to) && {
+        timestamp: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+      ...(filter.domain && {
+        OR: [{ host: filter.domain }, { host: { endsWith: `.${filter.domain}` } }],
+      }),
+    };
+  }
+
+  private static serialize(row: DownloadHistoryRow): HistoryEntry {
+    return {
+      id: row.id,
+      url: row.url,
+      type: row.type,
+      host: row.host || this.hostOf(row.url),
+      timestamp: row.timestamp.toISOString(),
+    };
+  }
+}
\ No newline at end of file
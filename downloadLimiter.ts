@@ -1,37 +1,281 @@
-import { PrismaClient } from '@prisma/client';
-import { Redis } from 'ioredis';
-
-const prisma = new PrismaClient();
-const redis = new Redis(process.env.REDIS_URL);
-
-export class DownloadLimiter {
-  static async checkDownloadLimit(userId: string): Promise<{ allowed: boolean; remaining: number }> {
-    // Always allow downloads
-    return {
-      allowed: true,
-      remaining: Infinity,
-    };
-  }
-
-  static async recordDownload(
-    userId: string,
-    url: string,
-    type: string,
-    partNumber?: number
-  ): Promise<void> {
-    // Only record download in database for history
-    await prisma.userDownloads.create({
-      data: {
-        userId,
-        url,
-        type,
-        partNumber,
-      },
-    });
-  }
-
-  static async resetDownloads(userId: string): Promise<void> {
-    // No need to reset anything since there are no limits
-    return;
-  }
-} 
\ No newline at end of file
+import { PrismaClient } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { ByteTransform } from './streamPipeline';
+import { Privacy } from './privacy';
+import { DownloadError } from './downloadError';
+import { redis } from './redisClient';
+
+const prisma = new PrismaClient();
+
+export type QuotaWindow = 'hour' | 'day';
+export type QuotaScope = 'session' | 'ip';
+
+// null means unlimited
+export interface QuotaLimits {
+  downloads: number | null;
+  bytes: number | null;
+}
+
+export interface QuotaTier {
+  window: QuotaWindow;
+  session: QuotaLimits;
+  ip: QuotaLimits; // shared by every session behind one address
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  tier: string;
+  window: QuotaWindow;
+  scope: QuotaScope | null; // the quota that ran out, if any
+  remaining: number | null;
+  remainingBytes: number | null;
+  resetAt: string | null; // when the oldest counted download leaves the window
+}
+
+const WINDOW_MS: Record<QuotaWindow, number> = {
+  hour: 3600 * 1000,
+  day: 24 * 3600 * 1000,
+};
+
+const GB = 1024 * 1024 * 1024;
+
+const DEFAULT_TIERS: Record<string, QuotaTier> = {
+  free: { window: 'day', session: { downloads: 50, bytes: 50 * GB }, ip: { downloads: 200, bytes: 200 * GB } },
+  plus: { window: 'day', session: { downloads: 500, bytes: 500 * GB }, ip: { downloads: 2000, bytes: 2000 * GB } },
+  unlimited: { window: 'day', session: { downloads: null, bytes: null }, ip: { downloads: null, bytes: null } },
+};
+
+// DOWNLOAD_QUOTA_TIERS holds JSON in the same shape as DEFAULT_TIERS
+function loadTiers(): Record<string, QuotaTier> {
+  if (!process.env.DOWNLOAD_QUOTA_TIERS) return DEFAULT_TIERS;
+  try {
+    return { ...DEFAULT_TIERS, ...JSON.parse(process.env.DOWNLOAD_QUOTA_TIERS) };
+  } catch (error) {
+    console.error('Invalid DOWNLOAD_QUOTA_TIERS, using the defaults:', error);
+    return DEFAULT_TIERS;
+  }
+}
+
+export const QUOTA_TIERS = loadTiers();
+const DEFAULT_TIER = process.env.DOWNLOAD_QUOTA_TIER && QUOTA_TIERS[process.env.DOWNLOAD_QUOTA_TIER]
+  ? process.env.DOWNLOAD_QUOTA_TIER
+  : 'free';
+
+interface Usage {
+  downloads: number;
+  bytes: number;
+  oldest: number | null;
+}
+
+export class DownloadLimiter {
+  // Usage is kept per session and per IP, under hashed keys and without
+  // URLs, so quotas apply to private downloads too
+  static async checkDownloadLimit(sessionId: string, ip: string, resume: boolean = false): Promise<QuotaStatus> {
+    const tierName = await this.getTier(sessionId);
+    const tier = QUOTA_TIERS[tierName];
+    const now = Date.now();
+
+    const [sessionUsage, ipUsage] = await Promise.all([
+      this.usage(this.sessionKey(sessionId), tier.window, now),
+      this.usage(this.ipKey(ip), tier.window, now),
+    ]);
+
+    const scopes: Array<{ scope: QuotaScope; limits: QuotaLimits; usage: Usage }> = [
+      { scope: 'session', limits: tier.session, usage: sessionUsage },
+      { scope: 'ip', limits: tier.ip, usage: ipUsage },
+    ];
+
+    let exhausted: QuotaScope | null = null;
+    let remaining: number | null = null;
+    let remainingBytes: number | null = null;
+    let resetAt: number | null = null;
+
+    for (const { scope, limits, usage } of scopes) {
+      const left = limits.downloads === null ? null : Math.max(0, limits.downloads - usage.downloads);
+      const leftBytes = limits.bytes === null ? null : Math.max(0, limits.bytes - usage.bytes);
+
+      // A resumed download was counted when it started; it only needs bytes
+      const outOfDownloads = left !== null && left === 0 && !resume;
+      const outOfBytes = leftBytes === 0;
+      const scopeReset = usage.oldest !== null && (limits.downloads !== null || limits.bytes !== null)
+        ? usage.oldest + WINDOW_MS[tier.window]
+        : null;
+
+      // Once a quota has run out, its own reset time is the one that matters
+      if ((outOfDownloads || outOfBytes) && !exhausted) {
+        exhausted = scope;
+        resetAt = scopeReset;
+      } else if (!exhausted && scopeReset !== null) {
+        resetAt = resetAt === null ? scopeReset : Math.min(resetAt, scopeReset);
+      }
+
+      remaining = left === null ? remaining : Math.min(remaining ?? left, left);
+      remainingBytes = leftBytes === null ? remainingBytes : Math.min(remainingBytes ?? leftBytes, leftBytes);
+    }
+
+    return {
+      allowed: exhausted === null,
+      tier: tierName,
+      window: tier.window,
+      scope: exhausted,
+      remaining,
+      remainingBytes,
+      resetAt: resetAt === null ? null : new Date(resetAt).toISOString(),
+    };
+  }
+
+  // Once the size is known: a file bigger than what is left is refused up front
+  static fits(status: QuotaStatus, bytes: number | null): boolean {
+    return status.remainingBytes === null || bytes === null || bytes <= status.remainingBytes;
+  }
+
+  static limitError(status: QuotaStatus, message: string = this.limitMessage(status)): DownloadError {
+    const retryAfter = status.resetAt
+      ? Math.max(1, Math.ceil((Date.parse(status.resetAt) - Date.now()) / 1000))
+      : undefined;
+
+    return new DownloadError('limit_reached', message, {
+      retryAfter,
+      details: {
+        tier: status.tier,
+        window: status.window,
+        scope: status.scope,
+        remaining: status.remaining,
+        remainingBytes: status.remainingBytes,
+        resetAt: status.resetAt,
+      },
+    });
+  }
+
+  static headers(status: QuotaStatus): Record<string, string> {
+    return {
+      'X-Quota-Tier': status.tier,
+      ...(status.remaining !== null && { 'X-Quota-Remaining': String(status.remaining) }),
+      ...(status.remainingBytes !== null && { 'X-Quota-Remaining-Bytes': String(status.remainingBytes) }),
+      ...(status.resetAt && { 'X-Quota-Reset': status.resetAt }),
+    };
+  }
+
+  // Counts a download against both quotas when it starts
+  static async countDownload(sessionId: string, ip: string, downloads: number = 1): Promise<void> {
+    await this.addUsage(sessionId, ip, downloads, 0);
+  }
+
+  // Counts the bytes actually sent once the stream ends, however it ends
+  static createTransform(sessionId: string, ip: string): ByteTransform {
+    let bytes = 0;
+    let recorded = false;
+    const record = () => {
+      if (recorded || bytes === 0) return;
+      recorded = true;
+      this.addUsage(sessionId, ip, 0, bytes).catch(error => {
+        console.error('Quota update error:', error);
+      });
+    };
+
+    // `cancel` is supported by the runtime but missing from the DOM typings
+    const transformer: Transformer<Uint8Array, Uint8Array> & { cancel: () => void } = {
+      transform(chunk, controller) {
+        bytes += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+      flush: record,
+      cancel: record,
+    };
+
+    return new TransformStream<Uint8Array, Uint8Array>(transformer);
+  }
+
+  // Keeps a row per download for history mode; private downloads never get here
+  static async recordDownload(
+    userId: string,
+    url: string,
+    type: string,
+    partNumber?: number
+  ): Promise<void> {
+    await prisma.userDownloads.create({
+      data: {
+        userId,
+        url,
+        type,
+        partNumber,
+      },
+    });
+  }
+
+  // After a verified ad watch or by an admin; the IP quota is only
+  // cleared when an address is given, so one address cannot reset itself
+  static async resetDownloads(sessionId: string, ip?: string): Promise<void> {
+    await redis.del(this.sessionKey(sessionId), ...(ip ? [this.ipKey(ip)] : []));
+  }
+
+  static async getTier(sessionId: string): Promise<string> {
+    const tier = await redis.get(this.tierKey(sessionId));
+    return tier && QUOTA_TIERS[tier] ? tier : DEFAULT_TIER;
+  }
+
+  static async setTier(sessionId: string, tier: string): Promise<void> {
+    if (!QUOTA_TIERS[tier]) {
+      throw new Error(`Unknown quota tier: ${tier}`);
+    }
+    if (tier === DEFAULT_TIER) {
+      await redis.del(this.tierKey(sessionId));
+    } else {
+      await redis.set(this.tierKey(sessionId), tier);
+    }
+  }
+
+  // Each download or finished transfer is one sorted-set member scored by
+  // time, so the window rolls instead of resetting on the hour
+  private static async usage(key: string, window: QuotaWindow, now: number): Promise<Usage> {
+    const results = await redis.multi()
+      .zremrangebyscore(key, 0, now - WINDOW_MS.day)
+      .zrangebyscore(key, now - WINDOW_MS[window], '+inf', 'WITHSCORES')
+      .exec();
+    const members: string[] = (results?.[1]?.[1] as string[]) || [];
+
+    const usage: Usage = { downloads: 0, bytes: 0, oldest: null };
+    for (let i = 0; i < members.length; i += 2) {
+      const [downloads, bytes] = members[i].split(':').map(Number);
+      usage.downloads += downloads || 0;
+      usage.bytes += bytes || 0;
+      if (usage.oldest === null) usage.oldest = Number(members[i + 1]);
+    }
+    return usage;
+  }
+
+  private static async addUsage(sessionId: string, ip: string, downloads: number, bytes: number): Promise<void> {
+    const now = Date.now();
+    const member = `${downloads}:${bytes}:${uuidv4()}`;
+    const ttl = Math.ceil(WINDOW_MS.day / 1000);
+
+    await redis.multi()
+      .zadd(this.sessionKey(sessionId), now, member)
+      .expire(this.sessionKey(sessionId), ttl)
+      .zadd(this.ipKey(ip), now, member)
+      .expire(this.ipKey(ip), ttl)
+      .exec();
+  }
+
+  private static limitMessage(status: QuotaStatus): string {
+    if (status.scope === 'session') {
+      return 'Download limit reached. Watch an ad to reset it, or wait for older downloads to leave the quota window.';
+    }
+    if (status.scope === 'ip') {
+      return 'Download limit for your network reached. Try again once older downloads leave the quota window.';
+    }
+    return 'This download is larger than what is left of your quota.';
+  }
+
+  private static sessionKey(sessionId: string): string {
+    return `quota:session:${Privacy.hash(sessionId)}`;
+  }
+
+  private static ipKey(ip: string): string {
+    return `quota:ip:${Privacy.hash(ip)}`;
+  }
+
+  private static tierKey(sessionId: string): string {
+    return `quota_tier:${Privacy.hash(sessionId)}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,255 @@
+import { PrismaClient } from '@prisma/client';
+import type { DownloadJob } from '@prisma/client';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { detectContentType } from './contentDetector';
+import { FilenameResolver } from './filenameResolver';
+import { UrlGuard } from './urlGuard';
+import { DownloadError } from './downloadError';
+import { Privacy } from './privacy';
+
+const prisma = new PrismaClient();
+
+export const DOWNLOAD_DIR = process.env.DOWNLOAD_DIR || path.join(process.cwd(), 'downloads');
+export const MAX_QUEUED_BYTES = process.env.QUEUE_MAX_BYTES !== undefined
+  ? parseInt(process.env.QUEUE_MAX_BYTES, 10) || 0
+  : 5 * 1024 * 1024 * 1024; // 5GB per download; 0 lifts the cap
+const RETENTION = (parseInt(process.env.QUEUE_RETENTION_HOURS || '', 10) || 24) * 3600 * 1000;
+
+// Jobs that nothing is working on; these expire once left alone for the retention period
+const IDLE_STATUSES: QueueStatus[] = ['paused', 'completed', 'failed', 'cancelled'];
+
+export type QueueStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type QueueAction = 'pause' | 'resume' | 'cancel' | 'retry';
+
+export interface QueuedDownload {
+  id: string;
+  url: string;
+  status: QueueStatus;
+  filename: string;
+  mimeType: string;
+  totalBytes: number | null;
+  bytesDownloaded: number;
+  attempts: number;
+  nextAttemptAt: string | null; // set while a failed attempt waits to be retried
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface NewDownload {
+  url: string;
+  filename: string;
+  mimeType: string;
+  totalBytes: number | null;
+}
+
+// Which states each action may move a job out of, and where it ends up
+const TRANSITIONS: Record<QueueAction, { from: QueueStatus[]; to: QueueStatus }> = {
+  pause: { from: ['queued', 'running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'queued' },
+  cancel: { from: ['queued', 'running', 'paused'], to: 'cancelled' },
+  retry: { from: ['failed', 'cancelled'], to: 'queued' },
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(public status: QueueStatus, action: QueueAction) {
+    super(`Cannot ${action} a download that is ${status}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class QueueRejectedError extends Error {
+  constructor(message: string = 'Only direct file downloads can be queued') {
+    super(message);
+    this.name = 'QueueRejectedError';
+  }
+}
+
+export class DownloadQueue {
+  // A job has to be stored to run after the tab closes, and private mode
+  // stores nothing, so only History Mode can queue
+  static assertQueueable(mode: unknown) {
+    if (Privacy.isPrivate(mode)) {
+      throw new DownloadError('history_mode_required', 'Queued downloads are stored on the server, so they need History Mode');
+    }
+  }
+
+  // Looks the URL up and queues it as a plain file download
+  static async add(sessionId: string, url: string): Promise<QueuedDownload> {
+    await UrlGuard.check(url);
+
+    // Streams, manifests and torrents need choices the queue cannot make
+    const contentType = await detectContentType(url);
+    if (contentType.type === 'torrent' || contentType.type === 'hls' || contentType.type === 'dash') {
+      throw new QueueRejectedError();
+    }
+
+    return this.enqueue(sessionId, {
+      url,
+      filename: contentType.filename ?? FilenameResolver.resolve({ url, extension: contentType.extension }),
+      mimeType: contentType.mimeType,
+      totalBytes: contentType.size > 0 ? contentType.size : null,
+    });
+  }
+
+  static async enqueue(sessionId: string, download: NewDownload): Promise<QueuedDownload> {
+    if (this.exceedsCap(download.totalBytes)) {
+      throw new QueueRejectedError(`Queued downloads are limited to ${this.formatCap()}`);
+    }
+
+    const job = await prisma.downloadJob.create({
+      data: {
+        sessionId,
+        url: download.url,
+        filename: download.filename,
+        mimeType: download.mimeType,
+        totalBytes: download.totalBytes,
+      },
+    });
+    return this.serialize(job);
+  }
+
+  static async list(sessionId: string): Promise<QueuedDownload[]> {
+    const jobs = await prisma.downloadJob.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return jobs.map(job => this.serialize(job));
+  }
+
+  static async get(sessionId: string, id: string): Promise<QueuedDownload | null> {
+    const job = await this.find(sessionId, id);
+    return job ? this.serialize(job) : null;
+  }
+
+  static async getCompletedFile(sessionId: string, id: string): Promise<{ job: QueuedDownload; filePath: string } | null> {
+    const job = await this.find(sessionId, id);
+    if (!job || job.status !== 'completed' || !job.filePath) return null;
+    return { job: this.serialize(job), filePath: job.filePath };
+  }
+
+  // A running job is not stopped here: the worker sees the new status on its
+  // next heartbeat and stops itself, wherever it runs
+  static async apply(sessionId: string, id: string, action: QueueAction): Promise<QueuedDownload | null> {
+    const job = await this.find(sessionId, id);
+    if (!job) return null;
+
+    const transition = TRANSITIONS[action];
+    const data: Record<string, unknown> = { status: transition.to, error: null };
+    if (action === 'resume' || action === 'retry') {
+      data.nextAttemptAt = new Date();
+    }
+    if (action === 'retry') {
+      data.attempts = 0;
+    }
+    // Cancelled downloads start over
+    if (action === 'cancel') {
+      data.bytesDownloaded = 0;
+    }
+
+    // Conditional on the status we saw, so a racing worker update wins cleanly
+    const { count } = await prisma.downloadJob.updateMany({
+      where: { id, status: { in: transition.from } },
+      data,
+    });
+    if (count === 0) {
+      throw new InvalidTransitionError(job.status as QueueStatus, action);
+    }
+
+    if (action === 'cancel' && job.status !== 'running') {
+      await this.removeFile(job.filePath);
+    }
+
+    return this.get(sessionId, id);
+  }
+
+  static async remove(sessionId: string, id: string): Promise<boolean> {
+    const job = await this.find(sessionId, id);
+    if (!job) return false;
+
+    await prisma.downloadJob.delete({ where: { id } });
+    // A running worker finds the job gone and cleans up after itself
+    if (job.status !== 'running') {
+      await this.removeFile(job.filePath);
+    }
+    return true;
+  }
+
+  static async removeFile(filePath: string | null): Promise<void> {
+    if (!filePath) return;
+    await fs.rm(filePath, { force: true }).catch(error => {
+      console.error('Queue file cleanup error:', error);
+    });
+  }
+
+  static exceedsCap(bytes: number | null): boolean {
+    return MAX_QUEUED_BYTES > 0 && bytes !== null && bytes > MAX_QUEUED_BYTES;
+  }
+
+  static formatCap(): string {
+    return `${Math.round(MAX_QUEUED_BYTES / (1024 * 1024))}MB`;
+  }
+
+  // Jobs left paused, finished or failed past the retention period are
+  // deleted with their files, and files no job points to are swept up
+  static async expire(): Promise<void> {
+    const cutoff = new Date(Date.now() - RETENTION);
+    const expired = await prisma.downloadJob.findMany({
+      where: { status: { in: IDLE_STATUSES }, updatedAt: { lt: cutoff } },
+    });
+
+    for (const job of expired) {
+      // Conditional on updatedAt, so a job resumed meanwhile is kept
+      const { count } = await prisma.downloadJob.deleteMany({
+        where: { id: job.id, updatedAt: job.updatedAt },
+      });
+      if (count > 0) {
+        await this.removeFile(job.filePath);
+      }
+    }
+
+    // Files are named after their job; one without a job was left by a crash
+    const names = await fs.readdir(DOWNLOAD_DIR).catch(() => [] as string[]);
+    if (names.length === 0) return;
+
+    const known = await prisma.downloadJob.findMany({
+      where: { id: { in: names } },
+      select: { id: true },
+    });
+    const knownIds = new Set(known.map(job => job.id));
+    for (const name of names) {
+      if (knownIds.has(name)) continue;
+      const file = path.join(DOWNLOAD_DIR, name);
+      const stats = await fs.stat(file).catch(() => null);
+      if (stats && stats.mtime < cutoff) {
+        await this.removeFile(file);
+      }
+    }
+  }
+
+  private static async find(sessionId: string, id: string) {
+    const job = await prisma.downloadJob.findUnique({ where: { id } });
+    return job && job.sessionId === sessionId ? job : null;
+  }
+
+  // Byte counts are BigInt in the database, which JSON cannot carry
+  private static serialize(job: DownloadJob): QueuedDownload {
+    return {
+      id: job.id,
+      url: job.url,
+      status: job.status as QueueStatus,
+      filename: job.filename,
+      mimeType: job.mimeType,
+      totalBytes: job.totalBytes === null ? null : Number(job.totalBytes),
+      bytesDownloaded: Number(job.bytesDownloaded),
+      attempts: job.attempts,
+      nextAttemptAt: job.status === 'queued' && job.attempts > 0 ? job.nextAttemptAt.toISOString() : null,
+      error: job.error,
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
+      completedAt: job.completedAt ? job.completedAt.toISOString() : null,
+    };
+  }
+}
\ No newline at end of file
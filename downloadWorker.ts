@@ -0,0 +1,259 @@
+import { PrismaClient } from '@prisma/client';
+import type { DownloadJob } from '@prisma/client';
+import { AxiosError } from 'axios';
+import { createWriteStream, promises as fs } from 'fs';
+import { once } from 'events';
+import path from 'path';
+import { UrlGuard } from './urlGuard';
+import { StreamPipeline } from './streamPipeline';
+import { DOWNLOAD_DIR, DownloadQueue, MAX_QUEUED_BYTES } from './downloadQueue';
+
+const prisma = new PrismaClient();
+
+const CONCURRENCY = parseInt(process.env.QUEUE_CONCURRENCY || '', 10) || 2;
+const POLL_INTERVAL = 2000; // 2 seconds between looks at the queue
+const HEARTBEAT_INTERVAL = 1000; // progress is saved, and the status checked, once a second
+const STALE_AFTER = 60000; // a running job with no heartbeat for a minute was orphaned by a crash
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 5000; // 5s, 10s, 20s, 40s between attempts
+const MAX_RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+const CLEANUP_INTERVAL = 3600 * 1000; // expired jobs and stray files are removed hourly
+
+class JobStoppedError extends Error {
+  constructor() {
+    super('Download stopped');
+    this.name = 'JobStoppedError';
+  }
+}
+
+class FileTooLargeError extends Error {
+  constructor() {
+    super(`The file is larger than the ${DownloadQueue.formatCap()} queued downloads are limited to`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+// Errors that will not go away by trying again
+function isPermanent(error: unknown): boolean {
+  if (UrlGuard.fromError(error) || error instanceof FileTooLargeError) return true;
+  const status = error instanceof AxiosError ? error.response?.status : undefined;
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+function describeError(error: unknown): string {
+  const guardError = UrlGuard.fromError(error);
+  if (guardError) return guardError.message;
+  if (error instanceof AxiosError && error.response) return `Source responded with ${error.response.status}`;
+  return error instanceof Error ? error.message : 'Download failed';
+}
+
+// Runs queued downloads in the background. Jobs are claimed through the
+// database, so several server processes can share one queue safely
+export class DownloadWorker {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = new Set<string>();
+  private static polling = false;
+  private static lastCleanup = 0;
+
+  static start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL);
+    this.poll();
+  }
+
+  private static async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    if (Date.now() - this.lastCleanup >= CLEANUP_INTERVAL) {
+      this.lastCleanup = Date.now();
+      DownloadQueue.expire().catch(error => console.error('Queue cleanup error:', error));
+    }
+
+    try {
+      const free = CONCURRENCY - this.running.size;
+      if (free <= 0) return;
+
+      const now = new Date();
+      const candidates = await prisma.downloadJob.findMany({
+        where: {
+          OR: [
+            { status: 'queued', nextAttemptAt: { lte: now } },
+            { status: 'running', heartbeatAt: { lt: new Date(now.getTime() - STALE_AFTER) } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+        take: free,
+      });
+
+      for (const candidate of candidates) {
+        // updatedAt doubles as a version: only one process can win the claim
+        const { count } = await prisma.downloadJob.updateMany({
+          where: { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt },
+          data: { status: 'running', heartbeatAt: new Date(), error: null },
+        });
+        if (count === 0) continue;
+
+        this.running.add(candidate.id);
+        this.run(candidate)
+          .catch(error => console.error('Queue worker error:', error))
+          .finally(() => this.running.delete(candidate.id));
+      }
+    } catch (error) {
+      console.error('Queue poll error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private static async run(job: DownloadJob) {
+    const filePath = job.filePath || path.join(DOWNLOAD_DIR, job.id);
+
+    try {
+      await this.download(job, filePath);
+    } catch (error) {
+      if (error instanceof JobStoppedError) {
+        await this.afterStop(job.id, filePath);
+        return;
+      }
+      await this.afterFailure(job, error);
+    }
+  }
+
+  private static async download(job: DownloadJob, filePath: string) {
+    await fs.mkdir(DOWNLOAD_DIR, { recursive: true });
+    await UrlGuard.check(job.url);
+
+    // Bytes written after the last heartbeat were never recorded, and
+    // recorded bytes may not have reached the disk: trust the smaller
+    const onDisk = await fs.stat(filePath).then(stats => stats.size, () => 0);
+    let offset = Math.min(Number(job.bytesDownloaded), onDisk);
+
+    // If-Range makes the source send the whole file again if it has changed
+    const validator = job.etag && !job.etag.startsWith('W/') ? job.etag : job.lastModified;
+    const response = await StreamPipeline.fromUpstream(job.url, {
+      headers: offset > 0
+        ? { Range: `bytes=${offset}-`, ...(validator && { 'If-Range': validator }) }
+        : undefined,
+    });
+    if (response.status !== 206) {
+      offset = 0;
+    }
+
+    const totalMatch = response.headers['content-range']?.match(/\/(\d+)$/);
+    const totalBytes = totalMatch
+      ? parseInt(totalMatch[1], 10)
+      : response.contentLength !== null ? offset + response.contentLength : null;
+    if (DownloadQueue.exceedsCap(totalBytes)) {
+      response.body.cancel().catch(() => undefined);
+      throw new FileTooLargeError();
+    }
+
+    await prisma.downloadJob.update({
+      where: { id: job.id },
+      data: {
+        filePath,
+        totalBytes,
+        bytesDownloaded: offset,
+        etag: response.headers['etag'] ?? null,
+        lastModified: response.headers['last-modified'] ?? null,
+        heartbeatAt: new Date(),
+      },
+    });
+
+    await fs.truncate(filePath, offset).catch(() => undefined);
+    const output = createWriteStream(filePath, { flags: offset > 0 ? 'r+' : 'w', start: offset });
+    const reader = response.body.getReader();
+    let written = offset;
+    let stopped = false;
+
+    // Saves progress and doubles as the check for pause, cancel and delete
+    const heartbeat = setInterval(async () => {
+      try {
+        const { count } = await prisma.downloadJob.updateMany({
+          where: { id: job.id, status: 'running' },
+          data: { bytesDownloaded: written, heartbeatAt: new Date() },
+        });
+        if (count === 0 && !stopped) {
+          stopped = true;
+          reader.cancel().catch(() => undefined);
+        }
+      } catch (error) {
+        console.error('Queue heartbeat error:', error);
+      }
+    }, HEARTBEAT_INTERVAL);
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        // Sources that do not give a size are held to the cap as they go
+        if (MAX_QUEUED_BYTES > 0 && written + value.byteLength > MAX_QUEUED_BYTES) {
+          reader.cancel().catch(() => undefined);
+          throw new FileTooLargeError();
+        }
+        if (!output.write(value)) {
+          await once(output, 'drain');
+        }
+        written += value.byteLength;
+      }
+    } finally {
+      clearInterval(heartbeat);
+      output.end();
+      await once(output, 'close');
+    }
+
+    if (stopped) {
+      throw new JobStoppedError();
+    }
+    if (totalBytes !== null && written !== totalBytes) {
+      throw new Error(`Connection closed after ${written} of ${totalBytes} bytes`);
+    }
+
+    const { count } = await prisma.downloadJob.updateMany({
+      where: { id: job.id, status: 'running' },
+      data: {
+        status: 'completed',
+        totalBytes: written,
+        bytesDownloaded: written,
+        completedAt: new Date(),
+        heartbeatAt: null,
+      },
+    });
+    if (count === 0) {
+      throw new JobStoppedError();
+    }
+  }
+
+  // Paused jobs keep their partial file; cancelled and deleted ones do not
+  private static async afterStop(id: string, filePath: string) {
+    const current = await prisma.downloadJob.findUnique({ where: { id } });
+    if (!current || current.status === 'cancelled') {
+      await DownloadQueue.removeFile(filePath);
+    }
+  }
+
+  private static async afterFailure(job: DownloadJob, error: unknown) {
+    const attempts = job.attempts + 1;
+    const message = describeError(error);
+
+    const data = isPermanent(error) || attempts >= MAX_ATTEMPTS
+      ? { status: 'failed', attempts, error: message, heartbeatAt: null }
+      : {
+          status: 'queued',
+          attempts,
+          error: message,
+          heartbeatAt: null,
+          nextAttemptAt: new Date(Date.now() + Math.min(RETRY_BASE_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY)),
+        };
+
+    // The byte offset from the last heartbeat stays, so the retry resumes
+    const { count } = await prisma.downloadJob.updateMany({
+      where: { id: job.id, status: 'running' },
+      data,
+    });
+    if (count === 0) {
+      await this.afterStop(job.id, job.filePath || path.join(DOWNLOAD_DIR, job.id));
+    }
+  }
+}
\ No newline at end of file
@@ -1,124 +1,150 @@
-import axios from 'axios';
-import { Redis } from 'ioredis';
-import { AdTracker } from './adTracker';
-
-const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5GB in bytes
-const MAX_CONCURRENT_DOWNLOADS = 5;
-const DOWNLOAD_TIMEOUT = 30000; // 30 seconds
-
-const redis = new Redis(process.env.REDIS_URL);
-
-export interface FilePart {
-  url: string;
-  partNumber: number;
-  size: number;
-  totalParts: number;
-}
-
-export class FileSplitter {
-  private static downloadQueue: Map<string, Promise<ArrayBuffer>> = new Map();
-  private static activeDownloads: Set<string> = new Set();
-
-  static async getFileSize(url: string): Promise<number> {
-    const cacheKey = `file_size:${url}`;
-    const cachedSize = await redis.get(cacheKey);
-    
-    if (cachedSize) {
-      return parseInt(cachedSize, 10);
-    }
-
-    const response = await axios.head(url, {
-      timeout: DOWNLOAD_TIMEOUT,
-    });
-    const size = parseInt(response.headers['content-length'], 10);
-    
-    await redis.setex(cacheKey, 3600, size.toString());
-    return size;
-  }
-
-  static splitFile(fileSize: number): FilePart[] {
-    const totalParts = Math.ceil(fileSize / MAX_PART_SIZE);
-    const parts: FilePart[] = [];
-
-    for (let i = 1; i <= totalParts; i++) {
-      const start = (i - 1) * MAX_PART_SIZE;
-      const end = Math.min(start + MAX_PART_SIZE, fileSize);
-      parts.push({
-        url: '',
-        partNumber: i,
-        size: end - start,
-        totalParts,
-      });
-    }
-
-    return parts;
-  }
-
-  private static async waitForSlot(): Promise<void> {
-    while (this.activeDownloads.size >= MAX_CONCURRENT_DOWNLOADS) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
-
-  static async downloadPart(
-    part: FilePart,
-    sessionId: string,
-    isSlow: boolean = false
-  ): Promise<ArrayBuffer> {
-    const downloadKey = `${part.url}#part${part.partNumber}`;
-    
-    // Check if download is already in progress
-    if (this.downloadQueue.has(downloadKey)) {
-      return this.downloadQueue.get(downloadKey)!;
-    }
-
-    // Check cache
-    const cacheKey = `file_part:${downloadKey}`;
-    const cachedPart = await redis.getBuffer(cacheKey);
-    
-    if (cachedPart) {
-      return cachedPart;
-    }
-
-    // Wait for available download slot
-    await this.waitForSlot();
-    this.activeDownloads.add(downloadKey);
-
-    try {
-      const start = (part.partNumber - 1) * MAX_PART_SIZE;
-      const end = start + part.size - 1;
-
-      const downloadPromise = axios.get(part.url, {
-        responseType: 'arraybuffer',
-        headers: {
-          Range: `bytes=${start}-${end}`,
-        },
-        timeout: DOWNLOAD_TIMEOUT,
-        ...(isSlow && {
-          onDownloadProgress: (progressEvent) => {
-            return new Promise(resolve => setTimeout(resolve, 100));
-          },
-        }),
-      }).then(async (response) => {
-        const data = response.data;
-        
-        // Cache the downloaded part
-        await redis.setex(cacheKey, 3600, data);
-        
-        return data;
-      });
-
-      this.downloadQueue.set(downloadKey, downloadPromise);
-      const result = await downloadPromise;
-      
-      return result;
-    } finally {
-      this.activeDownloads.delete(downloadKey);
-      this.downloadQueue.delete(downloadKey);
-    }
-  }
-
-  static combineParts(parts: ArrayBuffer[]): Blob {
-    return new Blob(parts);
-  }
+import { UrlGuard } from './urlGuard';
+import { StreamPipeline, UpstreamResponse } from './streamPipeline';
+import { BandwidthThrottle, SpeedTier } from './bandwidthThrottle';
+import { ByteRange } from './rangeRequest';
+import { DownloadError } from './downloadError';
+import { Semaphore, SegmentedDownloader } from './segmentedDownloader';
+import { ContentCache } from './contentCache';
+
+const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5GB in bytes
+const MAX_CONCURRENT_DOWNLOADS = 5;
+const DOWNLOAD_TIMEOUT = 30000; // 30 seconds
+
+// Shared by every server-side fetch of file bodies
+export const downloadSlots = new Semaphore(MAX_CONCURRENT_DOWNLOADS);
+
+export interface FilePart {
+  url: string;
+  partNumber: number;
+  size: number;
+  totalParts: number;
+}
+
+export class FileSplitter {
+  // Part numbers come from the client and start at 1
+  static getPart(url: string, fileSize: number, partNumber: unknown): FilePart {
+    const totalParts = Math.ceil(fileSize / MAX_PART_SIZE);
+    const number = typeof partNumber === 'string' || typeof partNumber === 'number' ? Number(partNumber) : NaN;
+    if (!Number.isInteger(number) || number < 1 || number > totalParts) {
+      throw new DownloadError('invalid_part', `Part must be a whole number from 1 to ${totalParts}`, {
+        details: { totalParts },
+      });
+    }
+
+    const start = (number - 1) * MAX_PART_SIZE;
+    return {
+      url,
+      partNumber: number,
+      size: Math.min(MAX_PART_SIZE, fileSize - start),
+      totalParts,
+    };
+  }
+
+  static splitFile(fileSize: number): FilePart[] {
+    const totalParts = Math.ceil(fileSize / MAX_PART_SIZE);
+    const parts: FilePart[] = [];
+
+    for (let i = 1; i <= totalParts; i++) {
+      const start = (i - 1) * MAX_PART_SIZE;
+      const end = Math.min(start + MAX_PART_SIZE, fileSize);
+      parts.push({
+        url: '',
+        partNumber: i,
+        size: end - start,
+        totalParts,
+      });
+    }
+
+    return parts;
+  }
+
+  // Whole parts are kept in the disk cache under the source's current
+  // validator, so a changed file is never served from it; private downloads
+  // neither read nor fill it
+  static async downloadPart(
+    part: FilePart,
+    sessionId: string | undefined,
+    ip: string,
+    speed: SpeedTier = 'slow',
+    signal?: AbortSignal,
+    range?: ByteRange, // within the part, for resumed downloads
+    useCache: boolean = true
+  ): Promise<UpstreamResponse> {
+    const partStart = (part.partNumber - 1) * MAX_PART_SIZE;
+    const partRange = range || { start: 0, end: part.size - 1 };
+
+    let cacheKey: string | null = null;
+    let validator: string | null = null;
+    if (useCache && ContentCache.enabled) {
+      validator = await this.getValidator(part.url);
+      cacheKey = validator && ContentCache.key(part.url, validator, { start: partStart, end: partStart + part.size - 1 });
+
+      const cached = cacheKey ? await ContentCache.read(cacheKey, partRange) : null;
+      if (cached) {
+        return {
+          status: 206,
+          url: part.url,
+          headers: cached.headers,
+          contentLength: partRange.end - partRange.start + 1,
+          body: StreamPipeline.pipe(cached.body, [
+            BandwidthThrottle.createTransform(sessionId, speed, ip),
+          ]),
+        };
+      }
+    }
+
+    // Wait for available download slot
+    await downloadSlots.acquire(signal);
+
+    // The slot is held until the part has been fully streamed or cancelled
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      downloadSlots.release();
+    };
+
+    try {
+      // The part is fetched as many smaller chunks over several connections
+      const upstream = await SegmentedDownloader.download(part.url, {
+        start: partStart + partRange.start,
+        end: partStart + partRange.end,
+      }, {
+        signal,
+        onClose: release,
+      });
+
+      // Only a whole part fills the cache, and only if the source has not
+      // changed since its validator was read
+      const whole = partRange.start === 0 && partRange.end === part.size - 1;
+      const fill = cacheKey && whole && ContentCache.validator(upstream.headers) === validator;
+
+      return {
+        ...upstream,
+        body: StreamPipeline.pipe(upstream.body, [
+          ...(fill ? [ContentCache.createWriter(cacheKey!, part.size, upstream.headers)] : []),
+          BandwidthThrottle.createTransform(sessionId, speed, ip),
+        ]),
+      };
+    } catch (error) {
+      release();
+      throw DownloadError.from(error);
+    }
+  }
+
+  private static async getValidator(url: string): Promise<string | null> {
+    try {
+      const response = await UrlGuard.client.head(url, {
+        timeout: DOWNLOAD_TIMEOUT,
+      });
+      return ContentCache.validator(response.headers as Record<string, string>);
+    } catch {
+      // The download itself reports the real error
+      return null;
+    }
+  }
+
+  static combineParts(parts: ArrayBuffer[]): Blob {
+    return new Blob(parts);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,149 @@
+const MAX_FILENAME_LENGTH = 200; // leaves room for part suffixes under the usual 255 limit
+const DEFAULT_BASENAME = 'download';
+
+// Device names Windows refuses to create, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+export interface FilenameSources {
+  contentDisposition?: string | null;
+  url?: string;
+  extension?: string;
+}
+
+function decodeExtValue(value: string): string | null {
+  // RFC 5987: charset'language'percent-encoded-bytes
+  const match = value.match(/^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/);
+  if (!match) return null;
+
+  const charset = match[1].toLowerCase();
+  if (charset !== 'utf-8' && charset !== 'iso-8859-1') return null;
+
+  const bytes: number[] = [];
+  for (let i = 0; i < match[2].length; i++) {
+    const char = match[2][i];
+    if (char === '%' && /^[0-9a-f]{2}$/i.test(match[2].slice(i + 1, i + 3))) {
+      bytes.push(parseInt(match[2].slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(char.charCodeAt(0) & 0xff);
+    }
+  }
+
+  try {
+    return new TextDecoder(charset, { fatal: true }).decode(new Uint8Array(bytes));
+  } catch {
+    return null;
+  }
+}
+
+// RFC 5987 attr-char allows fewer characters than encodeURIComponent leaves alone
+function encodeExtValue(value: string): string {
+  return encodeURIComponent(value).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export class FilenameResolver {
+  // Prefers filename* over filename, as RFC 6266 asks
+  static parseContentDisposition(header: string | null | undefined): string | null {
+    if (!header) return null;
+
+    const params: Record<string, string> = {};
+    const pattern = /;\s*([^\s=;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+    let match: RegExpExecArray | null;
+
+    // The disposition type is optional in practice, so parameters may lead
+    const parameters = `;${header}`;
+    while ((match = pattern.exec(parameters)) !== null) {
+      const name = match[1].toLowerCase();
+      let value = match[2].trim();
+      if (value.startsWith('"')) {
+        value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+      }
+      if (!(name in params)) {
+        params[name] = value;
+      }
+    }
+
+    const extended = params['filename*'] ? decodeExtValue(params['filename*']) : null;
+    return this.sanitize(extended ?? params.filename ?? '');
+  }
+
+  static fromUrl(url: string): string | null {
+    try {
+      const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+      if (!segment) return null;
+
+      let decoded = segment;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch {
+        // Keep the raw segment when it is not valid percent-encoding
+      }
+      return this.sanitize(decoded);
+    } catch {
+      return null;
+    }
+  }
+
+  // Reduces a server- or URL-supplied name to a safe, bare filename,
+  // or null when nothing usable is left
+  static sanitize(name: string): string | null {
+    // Only the last component of any path survives
+    let safe = name.split(/[\\/]/).pop() || '';
+
+    safe = safe
+      .replace(/[\u0000-\u001f\u007f-\u009f]/g, '')
+      .replace(/[<>:"|?*]/g, '_')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s.]+/, '')
+      .replace(/[\s.]+$/, '');
+
+    if (!safe || RESERVED_NAMES.test(safe)) return null;
+
+    if (safe.length > MAX_FILENAME_LENGTH) {
+      const extension = this.getExtension(safe);
+      const suffix = extension && extension.length < 16 ? `.${extension}` : '';
+      safe = safe.slice(0, MAX_FILENAME_LENGTH - suffix.length).trimEnd() + suffix;
+    }
+
+    return safe;
+  }
+
+  static getExtension(name: string): string | null {
+    const match = name.match(/\.([A-Za-z0-9]{1,16})$/);
+    return match ? match[1].toLowerCase() : null;
+  }
+
+  // Content-Disposition first, then the URL path, then a generic name;
+  // the sniffed extension is added when the chosen name has none
+  static resolve(sources: FilenameSources): string {
+    const extension = sources.extension && sources.extension !== 'bin' ? sources.extension : null;
+    const name = this.parseContentDisposition(sources.contentDisposition)
+      ?? (sources.url ? this.fromUrl(sources.url) : null);
+
+    if (!name) {
+      return `${DEFAULT_BASENAME}.${extension || 'bin'}`;
+    }
+    if (extension && !this.getExtension(name)) {
+      return `${name}.${extension}`;
+    }
+    return name;
+  }
+
+  // movie.mkv part 3 of 12 -> movie.mkv.part003-of-012
+  static partName(filename: string, partNumber: number, totalParts: number): string {
+    const width = Math.max(3, String(totalParts).length);
+    const pad = (value: number) => String(value).padStart(width, '0');
+    return `${filename}.part${pad(partNumber)}-of-${pad(totalParts)}`;
+  }
+
+  // RFC 6266: an ASCII filename for old clients plus a UTF-8 filename*
+  static contentDisposition(filename: string, type: 'attachment' | 'inline' = 'attachment'): string {
+    const safe = this.sanitize(filename) || DEFAULT_BASENAME;
+    const fallback = safe.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_').replace(/%/g, '_');
+
+    if (fallback === safe) {
+      return `${type}; filename="${safe}"`;
+    }
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeExtValue(safe)}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { HlsDownloader, HlsMediaPlaylist } from './hlsDownloader';
+import { UrlGuard } from './urlGuard';
+
+const PLAYLIST_URL = 'https://cdn.example.com/live/index.m3u8';
+const METADATA = 'http://169.254.169.254/latest/meta-data/iam';
+
+let server: http.Server;
+let port: number;
+let requests = 0;
+
+beforeAll(async () => {
+  server = http.createServer((_, response) => {
+    requests++;
+    response.end('secret');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const media = (lines: string[]) => ['#EXTM3U', '#EXT-X-TARGETDURATION:10', ...lines, '#EXT-X-ENDLIST'].join('\n');
+
+describe('HlsDownloader.parsePlaylist', () => {
+  it('resolves the URIs of a well-behaved playlist', () => {
+    const playlist = HlsDownloader.parsePlaylist(media([
+      '#EXT-X-KEY:METHOD=AES-128,URI="key.bin"',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:10,',
+      'segment0.m4s',
+    ]), PLAYLIST_URL) as HlsMediaPlaylist;
+
+    expect(playlist.segments[0]).toMatchObject({
+      uri: 'https://cdn.example.com/live/segment0.m4s',
+      key: { uri: 'https://cdn.example.com/live/key.bin' },
+      map: { uri: 'https://cdn.example.com/live/init.mp4' },
+    });
+  });
+
+  it.each([
+    ['a variant', ['#EXT-X-STREAM-INF:BANDWIDTH=1000', METADATA]],
+    ['a segment', ['#EXTINF:10,', METADATA]],
+    ['a segment on loopback', ['#EXTINF:10,', 'http://127.0.0.1/segment.ts']],
+    ['a key', [`#EXT-X-KEY:METHOD=AES-128,URI="${METADATA}"`, '#EXTINF:10,', 'segment0.ts']],
+    ['an init section', [`#EXT-X-MAP:URI="${METADATA}"`, '#EXTINF:10,', 'segment0.m4s']],
+    ['a segment using another scheme', ['#EXTINF:10,', 'file:///etc/passwd']],
+  ])('refuses %s pointing at a private address or scheme', (_, lines) => {
+    let error: unknown;
+    try {
+      HlsDownloader.parsePlaylist(media(lines), PLAYLIST_URL);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(UrlGuard.fromError(error)).not.toBeNull();
+  });
+});
+
+describe('HlsDownloader.streamSegments', () => {
+  it('does not fetch a segment whose host resolves to a private address', async () => {
+    const playlist = HlsDownloader.parsePlaylist(media([
+      '#EXTINF:10,',
+      `http://localhost:${port}/segment0.ts`,
+    ]), PLAYLIST_URL) as HlsMediaPlaylist;
+
+    const reader = HlsDownloader.streamSegments(playlist).getReader();
+    await expect(reader.read()).rejects.toSatisfy(error => UrlGuard.fromError(error)?.reason === 'blocked_address');
+    expect(requests).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,304 @@
+import { UrlGuard } from './urlGuard';
+import { createDecipheriv } from 'crypto';
+import { StreamPipeline } from './streamPipeline';
+import { DownloadError } from './downloadError';
+
+const PLAYLIST_MAX_SIZE = 5 * 1024 * 1024; // 5MB
+const PLAYLIST_TIMEOUT = 30000; // 30 seconds
+
+export interface HlsVariant {
+  uri: string;
+  bandwidth: number;
+  averageBandwidth?: number;
+  resolution?: string;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  frameRate?: number;
+  name?: string;
+}
+
+export interface HlsKey {
+  method: string;
+  uri?: string;
+  iv?: string;
+}
+
+export interface HlsByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface HlsInitSegment {
+  uri: string;
+  byteRange?: HlsByteRange;
+}
+
+export interface HlsSegment {
+  uri: string;
+  duration: number;
+  sequence: number;
+  key?: HlsKey;
+  byteRange?: HlsByteRange;
+  map?: HlsInitSegment;
+}
+
+export interface HlsMasterPlaylist {
+  type: 'master';
+  url: string;
+  variants: HlsVariant[];
+}
+
+export interface HlsMediaPlaylist {
+  type: 'media';
+  url: string;
+  targetDuration: number;
+  mediaSequence: number;
+  segments: HlsSegment[];
+  totalDuration: number;
+  isLive: boolean;
+}
+
+export type HlsPlaylist = HlsMasterPlaylist | HlsMediaPlaylist;
+
+export class HlsDownloader {
+  static isPlaylistUrl(url: string): boolean {
+    try {
+      return new URL(url).pathname.toLowerCase().endsWith('.m3u8');
+    } catch {
+      return false;
+    }
+  }
+
+  static isPlaylistContentType(contentType: unknown): boolean {
+    return String(contentType ?? '').toLowerCase().includes('mpegurl');
+  }
+
+  static async fetchPlaylist(url: string): Promise<HlsPlaylist> {
+    const response = await UrlGuard.client.get<string>(url, {
+      responseType: 'text',
+      maxContentLength: PLAYLIST_MAX_SIZE,
+      timeout: PLAYLIST_TIMEOUT,
+    });
+
+    // Relative URIs resolve against the final URL after redirects
+    const finalUrl = response.request?.res?.responseUrl || url;
+    return this.parsePlaylist(response.data, finalUrl);
+  }
+
+  static parsePlaylist(text: string, baseUrl: string): HlsPlaylist {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+    if (lines[0] !== '#EXTM3U') {
+      throw new DownloadError('unsupported_content', 'Not an HLS playlist');
+    }
+
+    if (lines.some(line => line.startsWith('#EXT-X-STREAM-INF'))) {
+      return this.parseMasterPlaylist(lines, baseUrl);
+    }
+    return this.parseMediaPlaylist(lines, baseUrl);
+  }
+
+  static parseAttributes(value: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value)) !== null) {
+      attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+    return attributes;
+  }
+
+  private static parseMasterPlaylist(lines: string[], baseUrl: string): HlsMasterPlaylist {
+    const variants: HlsVariant[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+
+      const attributes = this.parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+      const uri = lines.slice(i + 1).find(line => !line.startsWith('#'));
+      if (!uri) continue;
+
+      const [width, height] = (attributes.RESOLUTION || '').split('x').map(n => parseInt(n, 10));
+      variants.push({
+        uri: this.resolveUri(uri, baseUrl),
+        bandwidth: parseInt(attributes.BANDWIDTH || '0', 10),
+        averageBandwidth: attributes['AVERAGE-BANDWIDTH'] ? parseInt(attributes['AVERAGE-BANDWIDTH'], 10) : undefined,
+        resolution: attributes.RESOLUTION,
+        width: width || undefined,
+        height: height || undefined,
+        codecs: attributes.CODECS,
+        frameRate: attributes['FRAME-RATE'] ? parseFloat(attributes['FRAME-RATE']) : undefined,
+        name: attributes.NAME,
+      });
+    }
+
+    // Best quality first
+    variants.sort((a, b) => b.bandwidth - a.bandwidth);
+
+    return { type: 'master', url: baseUrl, variants };
+  }
+
+  private static parseMediaPlaylist(lines: string[], baseUrl: string): HlsMediaPlaylist {
+    const segments: HlsSegment[] = [];
+    let targetDuration = 0;
+    let mediaSequence = 0;
+    let isLive = true;
+
+    let key: HlsKey | undefined;
+    let map: HlsInitSegment | undefined;
+    let duration = 0;
+    let byteRange: string | undefined;
+    const nextOffset: Record<string, number> = {};
+
+    const parseByteRange = (value: string, uri: string): HlsByteRange => {
+      const [length, offset] = value.split('@').map(n => parseInt(n, 10));
+      // Without an offset the range continues where the previous one ended
+      return { length, offset: Number.isFinite(offset) ? offset : nextOffset[uri] || 0 };
+    };
+
+    for (const line of lines) {
+      if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+        targetDuration = parseFloat(line.split(':')[1]);
+      } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+        mediaSequence = parseInt(line.split(':')[1], 10);
+      } else if (line.startsWith('#EXT-X-ENDLIST')) {
+        isLive = false;
+      } else if (line.startsWith('#EXT-X-PLAYLIST-TYPE:VOD')) {
+        isLive = false;
+      } else if (line.startsWith('#EXT-X-KEY:')) {
+        const attributes = this.parseAttributes(line.slice('#EXT-X-KEY:'.length));
+        key = attributes.METHOD === 'NONE' ? undefined : {
+          method: attributes.METHOD,
+          uri: attributes.URI ? this.resolveUri(attributes.URI, baseUrl) : undefined,
+          iv: attributes.IV,
+        };
+      } else if (line.startsWith('#EXT-X-MAP:')) {
+        const attributes = this.parseAttributes(line.slice('#EXT-X-MAP:'.length));
+        const uri = this.resolveUri(attributes.URI, baseUrl);
+        map = {
+          uri,
+          byteRange: attributes.BYTERANGE ? parseByteRange(attributes.BYTERANGE, uri) : undefined,
+        };
+      } else if (line.startsWith('#EXTINF:')) {
+        duration = parseFloat(line.slice('#EXTINF:'.length).split(',')[0]);
+      } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+        byteRange = line.slice('#EXT-X-BYTERANGE:'.length);
+      } else if (!line.startsWith('#')) {
+        const uri = this.resolveUri(line, baseUrl);
+        const range = byteRange ? parseByteRange(byteRange, uri) : undefined;
+        if (range) {
+          nextOffset[uri] = range.offset + range.length;
+        }
+
+        segments.push({
+          uri,
+          duration,
+          sequence: mediaSequence + segments.length,
+          key,
+          byteRange: range,
+          map,
+        });
+        duration = 0;
+        byteRange = undefined;
+      }
+    }
+
+    return {
+      type: 'media',
+      url: baseUrl,
+      targetDuration,
+      mediaSequence,
+      segments,
+      totalDuration: segments.reduce((total, segment) => total + segment.duration, 0),
+      isLive,
+    };
+  }
+
+  static isFragmentedMp4(playlist: HlsMediaPlaylist): boolean {
+    return playlist.segments.some(segment => segment.map);
+  }
+
+  // Fetches segments one at a time as the client reads, decrypting AES-128
+  // segments and emitting each init segment once, before the first segment using it
+  static streamSegments(playlist: HlsMediaPlaylist, signal?: AbortSignal): ReadableStream<Uint8Array> {
+    const unsupported = playlist.segments.find(segment => segment.key && segment.key.method !== 'AES-128');
+    if (unsupported) {
+      throw new DownloadError('unsupported_content', `Unsupported HLS encryption method: ${unsupported.key!.method}`);
+    }
+
+    const keys: Map<string, Promise<Buffer>> = new Map();
+    let index = 0;
+    let currentMap: string | undefined;
+
+    const getKey = (uri: string) => {
+      if (!keys.has(uri)) {
+        keys.set(uri, this.fetchBytes(uri, undefined, signal));
+      }
+      return keys.get(uri)!;
+    };
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (index >= playlist.segments.length) {
+          controller.close();
+          return;
+        }
+
+        const segment = playlist.segments[index++];
+
+        if (segment.map) {
+          const mapId = `${segment.map.uri}#${segment.map.byteRange?.offset ?? ''}`;
+          if (mapId !== currentMap) {
+            currentMap = mapId;
+            controller.enqueue(await this.fetchBytes(segment.map.uri, segment.map.byteRange, signal));
+          }
+        }
+
+        let data = await this.fetchBytes(segment.uri, segment.byteRange, signal);
+
+        if (segment.key?.uri) {
+          const key = await getKey(segment.key.uri);
+          data = this.decryptSegment(data, key, segment.key.iv, segment.sequence);
+        }
+
+        controller.enqueue(data);
+      },
+    });
+  }
+
+  static decryptSegment(data: Buffer, key: Buffer, iv: string | undefined, sequence: number): Buffer {
+    let ivBuffer: Buffer;
+    if (iv) {
+      ivBuffer = Buffer.from(iv.replace(/^0x/i, '').padStart(32, '0'), 'hex');
+    } else {
+      // Without an explicit IV the media sequence number is used, big-endian
+      ivBuffer = Buffer.alloc(16);
+      ivBuffer.writeUInt32BE(Math.floor(sequence / 0x100000000), 8);
+      ivBuffer.writeUInt32BE(sequence % 0x100000000, 12);
+    }
+
+    const decipher = createDecipheriv('aes-128-cbc', key, ivBuffer);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  // Every URI comes from the remote playlist, so each is held to the same
+  // rules as the link the user gave; host names are checked again on connect
+  private static resolveUri(uri: string, baseUrl: string): string {
+    let resolved: string;
+    try {
+      resolved = new URL(uri, baseUrl).toString();
+    } catch {
+      throw new DownloadError('unsupported_content', 'HLS playlist has an invalid URI');
+    }
+    return UrlGuard.assertAllowedUrl(resolved).toString();
+  }
+
+  private static fetchBytes(url: string, byteRange?: HlsByteRange, signal?: AbortSignal): Promise<Buffer> {
+    return StreamPipeline.fetchBytes(url, {
+      range: byteRange ? `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}` : undefined,
+      signal,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LinkList } from './linkList';
+
+const WITH_COMMAS = 'https://img.example.com/resize?w=100,200&h=50';
+const WITH_SEMICOLON = 'https://files.example.com/report.pdf;jsessionid=A1B2C3';
+
+describe('LinkList.parse', () => {
+  it('keeps commas and semicolons that belong to a link', () => {
+    expect(LinkList.parse(`${WITH_COMMAS}\n${WITH_SEMICOLON}\r\nmagnet:?xt=urn:btih:abc`)).toEqual([
+      WITH_COMMAS,
+      WITH_SEMICOLON,
+      'magnet:?xt=urn:btih:abc',
+    ]);
+  });
+
+  it('splits tab-separated lines, skips other text and drops duplicates', () => {
+    expect(LinkList.parse(`url\ttitle\n"${WITH_COMMAS}"\tFirst\nnot a link\n${WITH_COMMAS}\n`)).toEqual([WITH_COMMAS]);
+  });
+
+  it('reads quoted CSV cells whole', () => {
+    const csv = [
+      'url,title',
+      `"${WITH_COMMAS}","Resized, twice"`,
+      `${WITH_SEMICOLON},Report`,
+      '"https://example.com/a.mp4","Says ""hi""",https://example.com/b.mp4',
+      '"https://example.com/c.mp4","A title over',
+      'two lines"',
+    ].join('\r\n');
+
+    expect(LinkList.parse(csv, 'csv')).toEqual([
+      WITH_COMMAS,
+      WITH_SEMICOLON,
+      'https://example.com/a.mp4',
+      'https://example.com/b.mp4',
+      'https://example.com/c.mp4',
+    ]);
+  });
+
+  it('reads CSV separated by semicolons when the header row says so', () => {
+    expect(LinkList.parse(`url;title\n"${WITH_SEMICOLON}";Report\n${WITH_COMMAS};Resized`, 'csv')).toEqual([
+      WITH_SEMICOLON,
+      WITH_COMMAS,
+    ]);
+  });
+
+  it('reads a single-column CSV of links with semicolons in them', () => {
+    expect(LinkList.parse(`${WITH_SEMICOLON}\nhttps://example.com/b;v=2`, 'csv')).toEqual([
+      WITH_SEMICOLON,
+      'https://example.com/b;v=2',
+    ]);
+  });
+
+  it('picks the format from the file name', () => {
+    expect(LinkList.formatOf('Links.CSV')).toBe('csv');
+    expect(LinkList.formatOf('links.txt')).toBe('lines');
+  });
+});
\ No newline at end of file
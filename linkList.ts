@@ -0,0 +1,72 @@
+export const MAX_BATCH_URLS = 100;
+
+// 'lines' is pasted text and .txt files, one link per line or tab-separated;
+// 'csv' is a spreadsheet export, where cells with commas come quoted
+export type LinkListFormat = 'lines' | 'csv';
+
+export class LinkList {
+  static formatOf(filename: string): LinkListFormat {
+    return filename.toLowerCase().endsWith('.csv') ? 'csv' : 'lines';
+  }
+
+  // Links may contain commas and semicolons (?w=100,200, ;jsessionid=), so
+  // plain lists only split on line breaks and tabs. A header row or anything
+  // else that is not a link is skipped
+  static parse(text: string, format: LinkListFormat = 'lines'): string[] {
+    const cells = format === 'csv'
+      ? this.csvCells(text)
+      : text.split(/[\r\n\t]+/).map(cell => cell.trim().replace(/^["']|["']$/g, ''));
+
+    const links: string[] = [];
+    for (const cell of cells) {
+      const value = cell.trim();
+      if (/^(https?:\/\/|magnet:\?)/i.test(value) && !links.includes(value)) {
+        links.push(value);
+      }
+    }
+    return links;
+  }
+
+  // RFC 4180: a quoted cell may hold delimiters, line breaks and doubled
+  // quotes. Rows do not matter here, only the cells in them
+  private static csvCells(text: string): string[] {
+    const delimiter = this.csvDelimiter(text);
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char !== '"') {
+          cell += char;
+        } else if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else if (char === '"' && cell.trim() === '') {
+        quoted = true;
+        cell = '';
+      } else if (char === delimiter || char === '\n' || char === '\r') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell);
+    return cells;
+  }
+
+  // Spreadsheets in some locales separate cells with semicolons, which
+  // unquoted links can contain too, so only a first row without one (a
+  // header) can pick them
+  private static csvDelimiter(text: string): string {
+    const firstRow = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    if (firstRow.includes('\t')) return '\t';
+    const hasLink = /(https?:\/\/|magnet:\?)/i.test(firstRow);
+    return !hasLink && firstRow.split(';').length > firstRow.split(',').length ? ';' : ',';
+  }
+}
\ No newline at end of file
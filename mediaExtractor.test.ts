@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { MediaExtractor } from './mediaExtractor';
+
+const PAGE_URL = 'https://example.com/watch?v=1';
+
+const PAGE = `<!DOCTYPE html><html><head>
+<base href="https://cdn.example.com/media/">
+<meta property="og:title" content="My &amp; Clip">
+<meta property="og:video" content="https://example.com/embed/123">
+<meta property="og:video:type" content="text/html">
+<meta property="og:video" content="https://cdn.example.com/og.mp4">
+<meta property="og:video:width" content="1920"><meta property="og:video:height" content="1080">
+<meta name="twitter:player:stream" content="https://cdn.example.com/tw">
+<meta name="twitter:player:stream:content_type" content="video/mp4">
+<script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"VideoObject","name":"LD video","contentUrl":"https://cdn.example.com/ld","width":{"@type":"QuantitativeValue","value":1280},"height":"720","contentSize":"12.5 MB","duration":"PT1M30S","bitrate":"1200kbps"}]}</script>
+<script>var config = {"hls":"https:\\/\\/cdn.example.com\\/master.m3u8?token=1\\u0026a=2"}; // <video src="in-script.mp4"></script>
+<!-- <video src="commented.mp4"></video> -->
+</head><body>
+<video width=640 controls poster="poster.jpg">
+  <source src="low.mp4" type='video/mp4' size="360">
+  <source src=hi.webm type="video/webm; codecs=vp9" label="1080p HD">
+  <source src="blob:https://example.com/abc">
+  <track src="subs.vtt">
+</video>
+<audio src="/podcast.mp3"></audio>
+<a href="manifest.mpd">DASH</a> <a href="page.html">page</a> <a href="low.mp4#t=10" title="same file">again</a>
+<link rel="stylesheet" href="style.css">
+</body></html>`;
+
+describe('MediaExtractor.extract', () => {
+  it('finds media in tags, metadata, JSON-LD and scripts, best first', () => {
+    const candidates = MediaExtractor.extract(PAGE, PAGE_URL);
+
+    expect(candidates.map(candidate => [candidate.source, candidate.url])).toEqual([
+      ['video_tag', 'https://cdn.example.com/media/hi.webm'],
+      ['video_tag', 'https://cdn.example.com/media/low.mp4'],
+      ['json_ld', 'https://cdn.example.com/ld'],
+      ['meta', 'https://cdn.example.com/og.mp4'],
+      ['meta', 'https://cdn.example.com/tw'],
+      ['audio_tag', 'https://cdn.example.com/podcast.mp3'],
+      ['link', 'https://cdn.example.com/media/manifest.mpd'],
+      ['script', 'https://cdn.example.com/master.m3u8?token=1'],
+    ]);
+  });
+
+  it('keeps the hints each source gives', () => {
+    const candidates = MediaExtractor.extract(PAGE, PAGE_URL);
+    const byUrl = (url: string) => candidates.find(candidate => candidate.url === url)!;
+
+    expect(byUrl('https://cdn.example.com/media/hi.webm')).toMatchObject({
+      type: 'video', height: 1080, title: '1080p HD', mimeType: 'video/webm; codecs=vp9',
+    });
+    expect(byUrl('https://cdn.example.com/media/low.mp4')).toMatchObject({ height: 360, mimeType: 'video/mp4' });
+    expect(byUrl('https://cdn.example.com/ld')).toMatchObject({
+      type: 'video', title: 'LD video', width: 1280, height: 720, size: 13107200, duration: 90, bitrate: 1200000,
+    });
+    expect(byUrl('https://cdn.example.com/og.mp4')).toMatchObject({ width: 1920, height: 1080, title: 'My & Clip' });
+    expect(byUrl('https://cdn.example.com/tw')).toMatchObject({ type: 'video', mimeType: 'video/mp4' });
+    expect(byUrl('https://cdn.example.com/media/manifest.mpd').type).toBe('dash');
+    expect(byUrl('https://cdn.example.com/master.m3u8?token=1').type).toBe('hls');
+  });
+
+  it('ignores comments, embed pages and markup inside scripts', () => {
+    const urls = MediaExtractor.extract(PAGE, PAGE_URL).map(candidate => candidate.url);
+
+    expect(urls.some(url => url.includes('commented') || url.includes('in-script') || url.includes('embed'))).toBe(false);
+    expect(urls.some(url => url.startsWith('blob:') || url.endsWith('.vtt') || url.endsWith('.html'))).toBe(false);
+  });
+
+  it('finds nothing on a page without media', () => {
+    expect(MediaExtractor.extract('<html><body><p>Nothing to see</p></body></html>', PAGE_URL)).toEqual([]);
+  });
+
+  it('reads tags that are never closed', () => {
+    const candidates = MediaExtractor.extract('<video src="a.mp4" <audio src=b.mp3 <a href="c.webm', PAGE_URL);
+
+    expect(candidates.map(candidate => candidate.url).sort()).toEqual([
+      'https://example.com/a.mp4',
+      'https://example.com/b.mp3',
+      'https://example.com/c.webm',
+    ]);
+  });
+
+  it('treats an unclosed comment or script as running to the end of the page', () => {
+    expect(MediaExtractor.extract('<!-- <video src="a.mp4"></video>', PAGE_URL)).toEqual([]);
+    expect(MediaExtractor.extract('<script>var a = "<video src=\'a.mp4\'>"', PAGE_URL)).toEqual([]);
+  });
+
+  // Each of these is about 2MB, the most fromPage reads; a scan that goes back
+  // over the input takes minutes on them
+  const LARGE = 2 * 1024 * 1024;
+  const repeat = (text: string) => text.repeat(Math.ceil(LARGE / text.length));
+
+  it.each([
+    ['a tag that never ends', `<a ${repeat('x ')}`],
+    ['many unclosed tags', repeat('<a x=1 ')],
+    ['many unclosed quotes', `<a ${repeat('x="')}`],
+    ['many stray angle brackets', repeat('<')],
+    ['many unclosed comments', repeat('<!--')],
+    ['many unclosed scripts', repeat('<script>')],
+    ['many unclosed styles', repeat('<style x="')],
+    ['many URLs run together in a script', `<script>${repeat('http://')}</script>`],
+    ['many extensions in one script URL', `<script>"http://a/${repeat('.mp4?')}</script>`],
+  ])('stays linear on %s', (_, html) => {
+    const started = Date.now();
+    MediaExtractor.extract(html, PAGE_URL);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,452 @@
+import { UrlGuard } from './urlGuard';
+import { DashDownloader } from './dashDownloader';
+import type { ContentType } from './contentDetector';
+
+const PAGE_MAX_SIZE = 2 * 1024 * 1024; // 2MB of HTML is plenty to find the media
+const PAGE_TIMEOUT = 15000; // 15 seconds
+const MAX_CANDIDATES = 50;
+
+export type MediaSource = 'video_tag' | 'audio_tag' | 'json_ld' | 'meta' | 'link' | 'script';
+
+export interface MediaCandidate {
+  url: string;
+  type: Extract<ContentType, 'video' | 'audio' | 'hls' | 'dash'>;
+  mimeType: string | null;
+  source: MediaSource; // where on the page it was found
+  title?: string;
+  width?: number;
+  height?: number;
+  bitrate?: number; // bits per second
+  size?: number; // bytes
+  duration?: number; // seconds
+}
+
+// Players put the real file in the tag; metadata points at it on purpose;
+// plain links and URLs inside scripts are more often thumbnails or ads
+const SOURCE_RANK: Record<MediaSource, number> = {
+  video_tag: 50,
+  json_ld: 40,
+  meta: 35,
+  audio_tag: 30,
+  link: 20,
+  script: 10,
+};
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'webm', 'mkv', 'mov', 'avi', 'ogv', 'flv', '3gp'];
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'wav', 'flac'];
+const MEDIA_URL_START = /https?:\\?\/\\?\//; // slashes may be escaped inside JSON strings
+const MEDIA_PATH_END = new RegExp(`\\.(?:m3u8|mpd|${[...VIDEO_EXTENSIONS, ...AUDIO_EXTENSIONS].join('|')})$`, 'i');
+
+interface HtmlTag {
+  name: string;
+  closing: boolean;
+  attributes: Record<string, string>;
+}
+
+interface HtmlScript {
+  type: string;
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function isSpace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f';
+}
+
+function isNameStart(char: string | undefined): boolean {
+  return !!char && ((char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z'));
+}
+
+// Start and end tags with their attributes, in document order, plus the text
+// of every script. Pages are untrusted, so this is one pass that never looks
+// back: a tag ends at the next '>' or '<', an unclosed quote at the end of its
+// tag, and an unclosed comment or script at the end of the page
+function scanHtml(html: string): { tags: HtmlTag[]; scripts: HtmlScript[] } {
+  const tags: HtmlTag[] = [];
+  const scripts: HtmlScript[] = [];
+  const lower = html.toLowerCase();
+  let position = 0;
+
+  while (position < html.length) {
+    const open = html.indexOf('<', position);
+    if (open === -1) break;
+
+    if (html.startsWith('<!--', open)) {
+      const end = html.indexOf('-->', open + 4);
+      if (end === -1) break;
+      position = end + 3;
+      continue;
+    }
+
+    const closing = html[open + 1] === '/';
+    let nameEnd = open + (closing ? 2 : 1);
+    if (!isNameStart(html[nameEnd])) {
+      position = open + 1; // doctype, processing instruction or a stray '<'
+      continue;
+    }
+    while (nameEnd < html.length && /[\w:-]/.test(html[nameEnd])) nameEnd++;
+
+    let end = nameEnd;
+    while (end < html.length && html[end] !== '>' && html[end] !== '<') end++;
+
+    const name = lower.slice(open + (closing ? 2 : 1), nameEnd);
+    const attributes = parseAttributes(html.slice(nameEnd, end));
+    tags.push({ name, closing, attributes });
+    position = html[end] === '>' ? end + 1 : end;
+
+    // Scripts and styles are text, not markup, up to their own end tag
+    if (!closing && (name === 'script' || name === 'style')) {
+      const close = lower.indexOf(`</${name}`, position);
+      const textEnd = close === -1 ? html.length : close;
+      if (name === 'script') {
+        scripts.push({ type: (attributes.type || '').toLowerCase(), text: html.slice(position, textEnd) });
+      }
+      position = textEnd;
+    }
+  }
+
+  return { tags, scripts };
+}
+
+// HTML allows unquoted and valueless attributes, which the MPD parser's XML
+// does not. The first of a repeated attribute wins, as in browsers
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  let position = 0;
+
+  while (position < raw.length) {
+    const char = raw[position];
+    if (isSpace(char) || char === '/' || char === '=' || char === '"' || char === "'") {
+      position++;
+      continue;
+    }
+
+    const nameStart = position;
+    while (position < raw.length && !isSpace(raw[position]) && !'/="\''.includes(raw[position])) position++;
+    const name = raw.slice(nameStart, position).toLowerCase();
+
+    let valueEnd = position;
+    while (valueEnd < raw.length && isSpace(raw[valueEnd])) valueEnd++;
+
+    let value = '';
+    if (raw[valueEnd] === '=') {
+      position = valueEnd + 1;
+      while (position < raw.length && isSpace(raw[position])) position++;
+
+      const quote = raw[position];
+      if (quote === '"' || quote === "'") {
+        const close = raw.indexOf(quote, position + 1);
+        value = raw.slice(position + 1, close === -1 ? raw.length : close);
+        position = close === -1 ? raw.length : close + 1;
+      } else {
+        const valueStart = position;
+        while (position < raw.length && !isSpace(raw[position])) position++;
+        value = raw.slice(valueStart, position);
+      }
+    }
+
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(value);
+    }
+  }
+
+  return attributes;
+}
+
+// Absolute media URLs in script text. Each URL runs to the next quote, space
+// or bracket and the search carries on after it, so no text is read twice
+function findMediaUrls(text: string): string[] {
+  const urls: string[] = [];
+  const start = new RegExp(MEDIA_URL_START.source, 'gi');
+  let match: RegExpExecArray | null;
+
+  while ((match = start.exec(text)) !== null) {
+    let end = match.index + match[0].length;
+    while (end < text.length && !isSpace(text[end]) && !'"\'<>'.includes(text[end])) end++;
+    start.lastIndex = end;
+
+    // A backslash in the query is the start of an escape, such as the \" closing a JSON string
+    const url = text.slice(match.index, end);
+    const queryStart = url.indexOf('?');
+    const path = (queryStart === -1 ? url : url.slice(0, queryStart)).replace(/\\+$/, '');
+    const query = queryStart === -1 ? '' : url.slice(queryStart).split('\\')[0];
+    if (MEDIA_PATH_END.test(path)) {
+      urls.push(path + query);
+    }
+  }
+
+  return urls;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value && typeof value === 'object' && 'value' in value) {
+    return toNumber((value as { value: unknown }).value); // schema.org QuantitativeValue
+  }
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+// "12.5 MB", "700KB", "1048576"
+function parseSize(value: unknown): number | undefined {
+  const match = String(value ?? '').trim().match(/^([\d.]+)\s*([kmgt]?i?b)?$/i);
+  if (!match) return undefined;
+  const units = ['b', 'kb', 'mb', 'gb', 'tb'];
+  const power = units.indexOf((match[2] || 'b').toLowerCase().replace('i', ''));
+  const size = parseFloat(match[1]) * Math.pow(1024, Math.max(0, power));
+  return Number.isFinite(size) && size > 0 ? Math.round(size) : undefined;
+}
+
+// "1200kbps", "2.5 Mbps", or plain bits per second
+function parseBitrate(value: unknown): number | undefined {
+  const match = String(value ?? '').trim().match(/^([\d.]+)\s*([km]?)(?:bps|bit\/s)?$/i);
+  if (!match) return undefined;
+  const bitrate = parseFloat(match[1]) * ({ '': 1, k: 1000, m: 1000000 }[match[2].toLowerCase()] ?? 1);
+  return Number.isFinite(bitrate) && bitrate > 0 ? bitrate : undefined;
+}
+
+const META_PREFIXES = ['og:video', 'og:audio', 'twitter:player:stream'];
+
+// Open Graph and Twitter describe a file with several tags in a row, e.g.
+// og:video, og:video:type, og:video:width; the next og:video starts another
+function groupMeta(entries: Array<[string, string]>): Array<{ prefix: string; fields: Record<string, string> }> {
+  const groups: Array<{ prefix: string; fields: Record<string, string> }> = [];
+  const open: Record<string, Record<string, string>> = {};
+
+  for (const [key, content] of entries) {
+    const prefix = META_PREFIXES.find(candidate => key === candidate || key.startsWith(`${candidate}:`));
+    if (!prefix) continue;
+
+    const field = key === prefix ? 'url' : key.slice(prefix.length + 1);
+    const isUrl = field === 'url' || field === 'secure_url';
+    if (isUrl && open[prefix]?.[field] !== undefined) {
+      groups.push({ prefix, fields: open[prefix] });
+      delete open[prefix];
+    }
+    open[prefix] = { ...open[prefix], [field]: content };
+  }
+
+  return [...groups, ...Object.entries(open).map(([prefix, fields]) => ({ prefix, fields }))];
+}
+
+function types(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value]).filter((type): type is string => typeof type === 'string');
+}
+
+// Finds the audio, video and stream files a web page embeds or links to,
+// best guesses first. Only the HTML is fetched; nothing it points to is
+export class MediaExtractor {
+  static isPage(contentType: unknown): boolean {
+    const mimeType = String(contentType ?? '').split(';')[0].trim().toLowerCase();
+    return mimeType === 'text/html' || mimeType === 'application/xhtml+xml';
+  }
+
+  static async fromPage(url: string): Promise<MediaCandidate[]> {
+    const response = await UrlGuard.client.get<string>(url, {
+      responseType: 'text',
+      maxContentLength: PAGE_MAX_SIZE,
+      timeout: PAGE_TIMEOUT,
+    });
+
+    // Relative URLs resolve against the final URL after redirects
+    const finalUrl = response.request?.res?.responseUrl || url;
+    return this.extract(response.data, finalUrl);
+  }
+
+  static extract(html: string, pageUrl: string): MediaCandidate[] {
+    const found = new Map<string, MediaCandidate>();
+    let baseUrl = pageUrl;
+
+    const add = (rawUrl: string | undefined, source: MediaSource, hints: Partial<MediaCandidate> = {}) => {
+      const url = rawUrl && this.resolve(rawUrl, baseUrl);
+      if (!url) return;
+
+      // A player's own source is media even when its URL does not say which kind
+      const type = this.classify(url, hints.mimeType ?? null) ?? hints.type;
+      if (!type) return;
+
+      // The same file found twice keeps its best source and every hint
+      const existing = found.get(url);
+      const candidate: MediaCandidate = { url, type, mimeType: null, source, ...this.defined(hints) };
+      if (!existing) {
+        found.set(url, candidate);
+      } else if (SOURCE_RANK[source] > SOURCE_RANK[existing.source]) {
+        found.set(url, { ...existing, ...this.defined(candidate) });
+      } else {
+        found.set(url, { ...candidate, ...this.defined(existing) });
+      }
+    };
+
+    // JSON-LD is read from scripts, everything else only searched for media URLs
+    const { tags, scripts } = scanHtml(html);
+
+    const meta: Array<[string, string]> = [];
+    let player: { source: MediaSource; type: 'video' | 'audio'; width?: number; height?: number; title?: string } | null = null;
+
+    for (const tag of tags) {
+      const { name, attributes } = tag;
+
+      if (name === 'video' || name === 'audio') {
+        if (tag.closing) {
+          player = null;
+          continue;
+        }
+        player = {
+          source: name === 'video' ? 'video_tag' : 'audio_tag',
+          type: name,
+          width: toNumber(attributes.width),
+          height: toNumber(attributes.height),
+          title: attributes.title || attributes['aria-label'] || undefined,
+        };
+        add(attributes.src, player.source, { ...player, mimeType: attributes.type || null });
+        continue;
+      }
+
+      if (tag.closing) continue;
+
+      if (name === 'base' && attributes.href) {
+        baseUrl = this.resolve(attributes.href, pageUrl) || baseUrl;
+      } else if (name === 'source' && player) {
+        // Players label qualities with size="720", res="720" or label="720p"
+        const quality = toNumber(attributes.size) ?? toNumber(attributes.res) ?? toNumber(attributes['data-res']) ??
+          toNumber(attributes.label?.match(/(\d{3,4})p\b/i)?.[1]);
+        add(attributes.src, player.source, {
+          ...player,
+          height: quality ?? player.height,
+          width: quality ? undefined : player.width,
+          mimeType: attributes.type || null,
+          title: attributes.label || attributes.title || player.title,
+        });
+      } else if (name === 'meta') {
+        const key = (attributes.property || attributes.name || '').toLowerCase();
+        if (key && attributes.content !== undefined) meta.push([key, attributes.content]);
+      } else if ((name === 'a' || name === 'link') && attributes.href) {
+        add(attributes.href, 'link', {
+          mimeType: attributes.type || null,
+          title: name === 'a' ? attributes.title || attributes.download || undefined : undefined,
+        });
+      }
+    }
+
+    const title = meta.find(([key]) => key === 'og:title' || key === 'twitter:title')?.[1];
+    for (const { prefix, fields } of groupMeta(meta)) {
+      const mimeType = fields.type || fields.content_type || null;
+      // og:video is often an embeddable player page rather than the file;
+      // only twitter:player:stream promises the file itself
+      if (this.isPage(mimeType)) continue;
+      add(fields.secure_url || fields.url, 'meta', {
+        type: prefix === 'twitter:player:stream' ? 'video' : undefined,
+        mimeType,
+        width: toNumber(fields.width),
+        height: toNumber(fields.height),
+        title,
+      });
+    }
+
+    for (const script of scripts) {
+      if (script.type === 'application/ld+json') {
+        this.readJsonLd(script.text, add);
+      } else if (!script.type || script.type.includes('javascript') || script.type === 'module' || script.type.endsWith('json')) {
+        for (const url of findMediaUrls(script.text)) {
+          // URLs inside JSON strings have their slashes escaped
+          add(url.replace(/\\\//g, '/'), 'script');
+        }
+      }
+    }
+
+    return this.rank(Array.from(found.values())).slice(0, MAX_CANDIDATES);
+  }
+
+  // Best first: where the URL was found, then streams that adapt to the
+  // connection, then the highest resolution or bitrate
+  static rank(candidates: MediaCandidate[]): MediaCandidate[] {
+    const score = (candidate: MediaCandidate) =>
+      SOURCE_RANK[candidate.source] +
+      (candidate.type === 'hls' || candidate.type === 'dash' ? 5 : 0) +
+      (candidate.type === 'audio' ? -5 : 0);
+
+    return [...candidates].sort((a, b) =>
+      score(b) - score(a) ||
+      (b.height ?? 0) - (a.height ?? 0) ||
+      (b.bitrate ?? 0) - (a.bitrate ?? 0) ||
+      (b.size ?? 0) - (a.size ?? 0)
+    );
+  }
+
+  private static readJsonLd(text: string, add: (url: string | undefined, source: MediaSource, hints?: Partial<MediaCandidate>) => void) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text.trim().replace(/^<!\[CDATA\[|\]\]>$/g, ''));
+    } catch {
+      return; // Broken JSON-LD is common and not our problem
+    }
+
+    const visit = (node: unknown, depth: number) => {
+      if (!node || typeof node !== 'object' || depth > 10) return;
+      if (Array.isArray(node)) {
+        node.forEach(item => visit(item, depth + 1));
+        return;
+      }
+
+      const item = node as Record<string, unknown>;
+      const itemTypes = types(item['@type']);
+      if (itemTypes.includes('VideoObject') || itemTypes.includes('AudioObject')) {
+        const contentUrl = typeof item.contentUrl === 'string' ? item.contentUrl : undefined;
+        add(contentUrl, 'json_ld', {
+          type: itemTypes.includes('AudioObject') ? 'audio' : 'video',
+          mimeType: typeof item.encodingFormat === 'string' && item.encodingFormat.includes('/') ? item.encodingFormat : null,
+          title: typeof item.name === 'string' ? item.name : undefined,
+          width: toNumber(item.width),
+          height: toNumber(item.height),
+          bitrate: parseBitrate(item.bitrate),
+          size: parseSize(item.contentSize),
+          duration: typeof item.duration === 'string' ? DashDownloader.parseDuration(item.duration) ?? undefined : undefined,
+        });
+      }
+
+      for (const [key, value] of Object.entries(item)) {
+        if (key !== '@context' && value && typeof value === 'object') visit(value, depth + 1);
+      }
+    };
+
+    visit(data, 0);
+  }
+
+  private static classify(url: string, mimeType: string | null): MediaCandidate['type'] | null {
+    const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+    if (type.includes('mpegurl')) return 'hls';
+    if (type === 'application/dash+xml') return 'dash';
+
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() || '';
+    if (extension === 'm3u8') return 'hls';
+    if (extension === 'mpd') return 'dash';
+    if (type.startsWith('video/') || VIDEO_EXTENSIONS.includes(extension)) return 'video';
+    if (type.startsWith('audio/') || AUDIO_EXTENSIONS.includes(extension)) return 'audio';
+    return null;
+  }
+
+  private static resolve(rawUrl: string, baseUrl: string): string | null {
+    try {
+      const url = new URL(rawUrl.trim(), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null; // blob:, data:, javascript:
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private static defined(hints: Partial<MediaCandidate>): Partial<MediaCandidate> {
+    return Object.fromEntries(Object.entries(hints).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { UrlGuard } from './urlGuard';
+import { ContentInfo, detectContentType, pickCacheHeaders } from './contentDetector';
+import { ContentCache } from './contentCache';
+import { Privacy } from './privacy';
+import { redis } from './redisClient';
+
+const MAX_HEURISTIC_FRESHNESS = 3600; // seconds; a guess from Last-Modified never goes past an hour
+const REVALIDATE_WINDOW = 24 * 3600; // seconds a stale entry is kept to revalidate
+const HEAD_TIMEOUT = 30000; // 30 seconds
+
+export interface Metadata {
+  info: ContentInfo;
+  source: 'network' | 'cache' | 'revalidated';
+  changed: boolean; // the source's validators differ from the ones cached before
+  version: string | null; // strong ETag or Last-Modified, for telling versions of a file apart
+}
+
+interface StoredMetadata {
+  info: ContentInfo;
+  freshUntil: number; // ms
+}
+
+// What detectContentType learns about a URL, cached by the rules the source
+// sets. The server is shared by every visitor, so it behaves as a shared
+// cache: `private` and `no-store` responses are not kept and `s-maxage` wins
+export class MetadataCache {
+  static async detect(url: string, useCache: boolean = true): Promise<Metadata> {
+    if (!useCache) {
+      const info = await detectContentType(url);
+      return { info, source: 'network', changed: false, version: this.version(info) };
+    }
+
+    const key = this.cacheKey(url);
+    const cached = await redis.get(key);
+    const stored: StoredMetadata | null = cached ? JSON.parse(cached) : null;
+
+    if (stored && stored.freshUntil > Date.now()) {
+      return { info: stored.info, source: 'cache', changed: false, version: this.version(stored.info) };
+    }
+
+    if (stored && this.hasValidators(stored.info.cacheHeaders)) {
+      const headers = await this.revalidate(url, stored.info.cacheHeaders!);
+      if (headers) {
+        const info = { ...stored.info, cacheHeaders: headers };
+        await this.store(key, info);
+        return { info, source: 'revalidated', changed: false, version: this.version(info) };
+      }
+    }
+
+    const info = await detectContentType(url);
+    await this.store(key, info);
+    const version = this.version(info);
+    return {
+      info,
+      source: 'network',
+      changed: !!stored && this.version(stored.info) !== version,
+      version,
+    };
+  }
+
+  // Seconds the response may be used without asking the source again;
+  // null when it must not be stored at all
+  static freshnessLifetime(headers: Record<string, string>, now: number = Date.now()): number | null {
+    const directives = this.parseCacheControl(headers['cache-control']);
+    if (directives['no-store'] || directives['private']) return null;
+
+    const age = Math.max(0, parseInt(headers['age'] || '0', 10) || 0);
+    const date = Date.parse(headers['date'] || '') || now;
+
+    let lifetime: number;
+    if (directives['no-cache']) {
+      lifetime = 0;
+    } else if (typeof directives['s-maxage'] === 'string') {
+      lifetime = parseInt(directives['s-maxage'], 10) || 0;
+    } else if (typeof directives['max-age'] === 'string') {
+      lifetime = parseInt(directives['max-age'], 10) || 0;
+    } else if (headers['expires']) {
+      const expires = Date.parse(headers['expires']);
+      lifetime = isNaN(expires) ? 0 : Math.max(0, Math.floor((expires - date) / 1000));
+    } else if (headers['last-modified'] && !isNaN(Date.parse(headers['last-modified']))) {
+      // The usual heuristic: a tenth of the time since the file last changed
+      const sinceModified = (date - Date.parse(headers['last-modified'])) / 1000;
+      lifetime = Math.min(MAX_HEURISTIC_FRESHNESS, Math.max(0, Math.floor(sinceModified / 10)));
+    } else {
+      lifetime = 0;
+    }
+
+    return Math.max(0, lifetime - age);
+  }
+
+  static parseCacheControl(value: string | undefined): Record<string, string | true> {
+    const directives: Record<string, string | true> = {};
+    for (const part of (value || '').split(',')) {
+      const [name, ...rest] = part.trim().split('=');
+      if (!name) continue;
+      directives[name.toLowerCase()] = rest.length > 0 ? rest.join('=').replace(/^"|"$/g, '') : true;
+    }
+    return directives;
+  }
+
+  private static version(info: ContentInfo): string | null {
+    return info.cacheHeaders ? ContentCache.validator(info.cacheHeaders) : null;
+  }
+
+  private static hasValidators(headers: Record<string, string> | undefined): boolean {
+    return !!headers && !!(headers['etag'] || headers['last-modified']);
+  }
+
+  // A conditional HEAD; the new headers when the source says nothing changed,
+  // null when it has, or when it cannot be asked
+  private static async revalidate(url: string, cached: Record<string, string>): Promise<Record<string, string> | null> {
+    try {
+      const response = await UrlGuard.client.head(url, {
+        timeout: HEAD_TIMEOUT,
+        headers: {
+          ...(cached['etag'] && { 'If-None-Match': cached['etag'] }),
+          ...(cached['last-modified'] && { 'If-Modified-Since': cached['last-modified'] }),
+        },
+        validateStatus: status => status === 304 || (status >= 200 && status < 300),
+      });
+
+      const fresh = pickCacheHeaders(response.headers as Record<string, unknown>);
+
+      // A 304 may leave out headers that have not changed
+      const headers = response.status === 304 ? { ...cached, ...fresh } : fresh;
+      if (response.status !== 304) {
+        // Servers that ignore conditional requests answer 200; same validators, same file
+        const unchanged = (cached['etag'] && headers['etag'] === cached['etag']) ||
+          (!cached['etag'] && cached['last-modified'] && headers['last-modified'] === cached['last-modified']);
+        if (!unchanged) return null;
+      }
+      return headers;
+    } catch {
+      return null;
+    }
+  }
+
+  private static async store(key: string, info: ContentInfo) {
+    const lifetime = info.cacheHeaders ? this.freshnessLifetime(info.cacheHeaders) : null;
+    const revalidatable = this.hasValidators(info.cacheHeaders);
+
+    // Nothing to reuse: not allowed, or neither fresh nor revalidatable
+    if (lifetime === null || (lifetime === 0 && !revalidatable)) {
+      await redis.del(key);
+      return;
+    }
+
+    const stored: StoredMetadata = { info, freshUntil: Date.now() + lifetime * 1000 };
+    await redis.setex(key, lifetime + (revalidatable ? REVALIDATE_WINDOW : 0), JSON.stringify(stored));
+  }
+
+  private static cacheKey(url: string): string {
+    return `metadata:${Privacy.hash(url)}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { FilenameResolver } from './filenameResolver';
+
+const PART_RETRIES = 3;
+const STORAGE_PREFIX = 'multipart_download:';
+
+export interface MultipartPlan {
+  url: string;
+  filename: string;
+  totalSize: number;
+  partSize: number;
+  totalParts: number;
+  version?: string | null; // the source's validator, from the large-file info
+}
+
+export interface MultipartProgress {
+  partNumber: number;
+  totalParts: number;
+  bytesWritten: number; // across the whole file
+  totalSize: number;
+}
+
+export interface MultipartOptions {
+  sessionId: string;
+  mode: string;
+  speedForPart: (partNumber: number) => 'slow' | 'fast';
+  unlockTokenForPart?: (partNumber: number) => string | undefined; // fast parts need their ad unlock
+  signal?: AbortSignal;
+  onProgress?: (progress: MultipartProgress) => void;
+}
+
+interface SavedDownload extends MultipartPlan {
+  completedParts: number;
+}
+
+// The File System Access API is not in the DOM typings yet
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+class PartDownloadError extends Error {
+  constructor(message: string, public retryable: boolean, public retryAfter?: number) {
+    super(message);
+    this.name = 'PartDownloadError';
+  }
+}
+
+export class MultipartDownload {
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+  }
+
+  static getSaved(url: string): SavedDownload | null {
+    const saved = localStorage.getItem(STORAGE_PREFIX + url);
+    return saved ? JSON.parse(saved) : null;
+  }
+
+  static clearSaved(url: string) {
+    localStorage.removeItem(STORAGE_PREFIX + url);
+  }
+
+  // Streams every part into one file on disk, in order. Each part is committed
+  // when it finishes, so after a reload the download picks up at the next part
+  static async saveToDisk(plan: MultipartPlan, options: MultipartOptions): Promise<void> {
+    const picker = (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker;
+    const handle = await picker({ suggestedName: plan.filename });
+
+    const saved = this.getSaved(plan.url);
+    // Parts saved from an older version of the file cannot be finished with newer ones
+    let completedParts = saved && saved.totalSize === plan.totalSize && saved.partSize === plan.partSize &&
+      (saved.version ?? null) === (plan.version ?? null)
+      ? saved.completedParts
+      : 0;
+
+    // Only trust earlier parts if the chosen file actually holds them
+    if (completedParts > 0) {
+      const existing = await handle.getFile();
+      if (existing.size < Math.min(completedParts * plan.partSize, plan.totalSize)) {
+        completedParts = 0;
+      }
+    }
+
+    for (let partNumber = completedParts + 1; partNumber <= plan.totalParts; partNumber++) {
+      await this.downloadPartWithRetry(handle, plan, partNumber, options);
+      // Private downloads leave nothing in the browser either, so they cannot pick up after a reload
+      if (options.mode === 'history') {
+        localStorage.setItem(STORAGE_PREFIX + plan.url, JSON.stringify({ ...plan, completedParts: partNumber }));
+      }
+    }
+
+    this.clearSaved(plan.url);
+  }
+
+  // Without the File System Access API the browser saves each part itself,
+  // through plain GET links it can resume on its own; the user joins them afterwards
+  static startBrowserDownloads(plan: MultipartPlan, options: MultipartOptions) {
+    for (let partNumber = 1; partNumber <= plan.totalParts; partNumber++) {
+      const params = new URLSearchParams({
+        url: plan.url,
+        sessionId: options.sessionId,
+        mode: options.mode,
+        downloadSpeed: options.speedForPart(partNumber),
+        partSize: String(partNumber),
+      });
+      const unlockToken = options.unlockTokenForPart?.(partNumber);
+      if (unlockToken) params.set('unlockToken', unlockToken);
+
+      const link = document.createElement('a');
+      link.href = `/api/download?${params}`;
+      link.download = FilenameResolver.partName(plan.filename, partNumber, plan.totalParts);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    }
+  }
+
+  private static async downloadPartWithRetry(
+    handle: FileSystemFileHandle,
+    plan: MultipartPlan,
+    partNumber: number,
+    options: MultipartOptions
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.downloadPart(handle, plan, partNumber, options);
+        return;
+      } catch (error) {
+        const retryable = !(error instanceof PartDownloadError) || error.retryable;
+        if (options.signal?.aborted || !retryable || attempt >= PART_RETRIES) throw error;
+        const delay = error instanceof PartDownloadError && error.retryAfter !== undefined
+          ? error.retryAfter
+          : Math.pow(2, attempt);
+        await new Promise(resolve => setTimeout(resolve, delay * 1000));
+      }
+    }
+  }
+
+  private static async downloadPart(
+    handle: FileSystemFileHandle,
+    plan: MultipartPlan,
+    partNumber: number,
+    options: MultipartOptions
+  ): Promise<void> {
+    const start = (partNumber - 1) * plan.partSize;
+    const size = Math.min(plan.partSize, plan.totalSize - start);
+
+    const response = await fetch('/api/download', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        url: plan.url,
+        mode: options.mode,
+        downloadSpeed: options.speedForPart(partNumber),
+        sessionId: options.sessionId,
+        partSize: partNumber,
+        unlockToken: options.unlockTokenForPart?.(partNumber),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      // Errors without a code come from outside the API, e.g. a proxy
+      throw new PartDownloadError(
+        data.error || `Part ${partNumber} failed`,
+        data.code ? data.retryable === true : response.status >= 500,
+        typeof data.retryAfter === 'number' ? data.retryAfter : undefined
+      );
+    }
+
+    let written = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        written += chunk.byteLength;
+        options.onProgress?.({
+          partNumber,
+          totalParts: plan.totalParts,
+          bytesWritten: start + written,
+          totalSize: plan.totalSize,
+        });
+        controller.enqueue(chunk);
+      },
+    });
+
+    // Writes land in a swap file and only replace the real one on close,
+    // so a failed part never leaves half-written data behind
+    const writable = await handle.createWritable({ keepExistingData: true });
+    try {
+      await writable.seek(start);
+      await response.body.pipeThrough(counter).pipeTo(writable, { preventClose: true });
+
+      if (written !== size) {
+        throw new PartDownloadError(`Part ${partNumber} ended after ${written} of ${size} bytes`, true);
+      }
+      if (partNumber === plan.totalParts) {
+        await writable.truncate(plan.totalSize);
+      }
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -1,463 +1,1651 @@
-'use client';
-
-import React, { useState, useEffect, useCallback } from 'react';
-import { FaDownload, FaHistory, FaLock, FaBolt, FaTachometerAlt, FaMagnet, FaFileAlt } from 'react-icons/fa';
-import { motion, AnimatePresence } from 'framer-motion';
-import { SessionManager } from './utils/sessionManager';
-import { detectContentType, ContentInfo } from './utils/contentDetector';
-
-// Debounce function to limit API calls
-const debounce = (func: Function, wait: number) => {
-  let timeout: ReturnType<typeof setTimeout>;
-  return (...args: any[]) => {
-    clearTimeout(timeout);
-    timeout = setTimeout(() => func(...args), wait);
-  };
-};
-
-interface TorrentInfo {
-  type: 'torrent';
-  url: string;
-  name: string;
-}
-
-interface LargeFileInfo {
-  type: 'large_file';
-  totalSize: number;
-  suggestedPartSize: number;
-}
-
-export default function Home() {
-  const [url, setUrl] = useState('');
-  const [mode, setMode] = useState<'normal' | 'history'>('normal');
-  const [isLoading, setIsLoading] = useState(false);
-  const [downloadSpeed, setDownloadSpeed] = useState<'slow' | 'fast'>('slow');
-  const [showAd, setShowAd] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState(0);
-  const [estimatedTime, setEstimatedTime] = useState('');
-  const [adProgress, setAdProgress] = useState(0);
-  const [error, setError] = useState('');
-  const [torrentInfo, setTorrentInfo] = useState<TorrentInfo | null>(null);
-  const [largeFileInfo, setLargeFileInfo] = useState<LargeFileInfo | null>(null);
-  const [currentPart, setCurrentPart] = useState(1);
-  const [totalParts, setTotalParts] = useState(1);
-  const [partUnlocked, setPartUnlocked] = useState<Record<number, boolean>>({});
-  const [retryCount, setRetryCount] = useState(0);
-  const [isLargeFile, setIsLargeFile] = useState(false);
-  const MAX_RETRIES = 3;
-
-  // Debounced URL validation
-  const validateUrl = useCallback(
-    debounce(async (url: string) => {
-      if (!url) return;
-      
-      try {
-        const response = await fetch('/api/validate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ url }),
-        });
-        
-        if (!response.ok) {
-          setError('Invalid URL or resource not available');
-        }
-      } catch (err) {
-        setError('Failed to validate URL');
-      }
-    }, 500),
-    []
-  );
-
-  useEffect(() => {
-    validateUrl(url);
-  }, [url, validateUrl]);
-
-  // Simulate download progress
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (isLoading) {
-      interval = setInterval(() => {
-        setDownloadProgress((prev: number) => {
-          if (prev >= 100) {
-            clearInterval(interval);
-            return 100;
-          }
-          return prev + (downloadSpeed === 'fast' ? 10 : 2);
-        });
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [isLoading, downloadSpeed]);
-
-  // Simulate ad progress
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (showAd) {
-      interval = setInterval(() => {
-        setAdProgress((prev: number) => {
-          if (prev >= 100) {
-            clearInterval(interval);
-            handleAdComplete();
-            return 100;
-          }
-          return prev + 20; // 5 seconds total
-        });
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [showAd]);
-
-  // Calculate estimated time
-  useEffect(() => {
-    if (downloadProgress > 0 && downloadProgress < 100) {
-      const remaining = 100 - downloadProgress;
-      const speed = downloadSpeed === 'fast' ? 10 : 2;
-      const seconds = Math.ceil(remaining / speed);
-      setEstimatedTime(`${seconds} seconds remaining`);
-    } else {
-      setEstimatedTime('');
-    }
-  }, [downloadProgress, downloadSpeed]);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-    setIsLoading(true);
-    setTorrentInfo(null);
-    setLargeFileInfo(null);
-    setDownloadProgress(0);
-
-    if (downloadSpeed === 'fast' && !partUnlocked[currentPart]) {
-      setShowAd(true);
-      return;
-    }
-
-    try {
-      const response = await fetch('/api/download', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          url,
-          mode,
-          downloadSpeed,
-          sessionId: localStorage.getItem('sessionId'),
-          partSize: largeFileInfo ? currentPart : undefined,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        
-        if (response.status === 429 && retryCount < MAX_RETRIES) {
-          const backoffTime = Math.pow(2, retryCount) * 1000;
-          await new Promise(resolve => setTimeout(resolve, backoffTime));
-          setRetryCount((prev: number) => prev + 1);
-          handleSubmit(e);
-          return;
-        }
-        
-        throw new Error(errorData.error || 'Download failed');
-      }
-
-      const contentType = response.headers.get('content-type');
-      
-      if (contentType?.includes('application/json')) {
-        const data = await response.json();
-        
-        if (data.type === 'torrent') {
-          setTorrentInfo(data);
-          setIsLargeFile(false);
-        } else if (data.type === 'large_file') {
-          setLargeFileInfo(data);
-          setTotalParts(Math.ceil(data.totalSize / data.suggestedPartSize));
-          setPartUnlocked({});
-          setIsLargeFile(true);
-        }
-      } else {
-        // Handle file download
-        const contentInfo = await detectContentType(url);
-        setIsLargeFile(contentInfo.isLargeFile);
-        
-        if (!contentInfo.isLargeFile && mode === 'history') {
-          setError('History mode is only available for files larger than 5GB');
-          setIsLoading(false);
-          return;
-        }
-        
-        // Continue with download...
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Download failed');
-    } finally {
-      setIsLoading(false);
-      setRetryCount(0);
-    }
-  };
-
-  const handleAdComplete = async () => {
-    setShowAd(false);
-    setPartUnlocked((prev: Record<number, boolean>) => ({
-      ...prev,
-      [currentPart]: true,
-    }));
-    handleSubmit(new Event('submit') as any);
-  };
-
-  const handleNextPart = () => {
-    if (currentPart < totalParts) {
-      setCurrentPart((prev: number) => prev + 1);
-      handleSubmit(new Event('submit') as any);
-    }
-  };
-
-  return (
-    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 py-12 px-4 sm:px-6 lg:px-8">
-      <motion.div 
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.5 }}
-        className="max-w-md mx-auto bg-white rounded-xl shadow-lg p-8"
-      >
-        <h1 className="text-3xl font-bold text-center mb-8 text-gray-800">Universal Downloader</h1>
-        
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-2">Download Mode</label>
-          <div className="flex items-center space-x-4">
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => setMode('history')}
-              className={`flex-1 flex items-center justify-center px-4 py-2 rounded-lg transition-colors ${
-                mode === 'history' 
-                  ? 'bg-blue-500 text-white shadow-md' 
-                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-              } ${!isLargeFile ? 'opacity-50 cursor-not-allowed' : ''}`}
-              disabled={!isLargeFile}
-              title={!isLargeFile ? 'History mode is only available for files larger than 5GB' : ''}
-            >
-              <FaHistory className="mr-2" />
-              History Mode
-            </motion.button>
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => setMode('normal')}
-              className={`flex-1 flex items-center justify-center px-4 py-2 rounded-lg transition-colors ${
-                mode === 'normal' 
-                  ? 'bg-blue-500 text-white shadow-md' 
-                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-              }`}
-            >
-              <FaLock className="mr-2" />
-              Normal Mode
-            </motion.button>
-          </div>
-          {!isLargeFile && mode === 'history' && (
-            <p className="mt-2 text-sm text-red-500">
-              History mode is only available for files larger than 5GB
-            </p>
-          )}
-        </div>
-
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-2">
-              Paste your URL
-            </label>
-            <motion.input
-              whileFocus={{ scale: 1.01 }}
-              type="url"
-              id="url"
-              value={url}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)}
-              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-              placeholder="https://example.com/file.pdf"
-              required
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <motion.input
-                  whileTap={{ scale: 0.95 }}
-                  type="checkbox"
-                  id="fastDownload"
-                  checked={downloadSpeed === 'fast'}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDownloadSpeed(e.target.checked ? 'fast' : 'slow')}
-                  className="h-5 w-5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                />
-                <label htmlFor="fastDownload" className="ml-2 block text-sm text-gray-900">
-                  Enable fast download
-                </label>
-              </div>
-              <div className="flex items-center text-sm text-gray-600">
-                <FaTachometerAlt className="mr-1" />
-                {downloadSpeed === 'fast' ? 'Fast (10MB/s)' : 'Slow (100KB/s)'}
-              </div>
-            </div>
-
-            <AnimatePresence>
-              {isLoading && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  exit={{ opacity: 0, height: 0 }}
-                  className="space-y-2"
-                >
-                  <div className="w-full bg-gray-200 rounded-full h-2.5">
-                    <motion.div 
-                      className="bg-blue-600 h-2.5 rounded-full transition-all duration-300" 
-                      style={{ width: `${downloadProgress}%` }}
-                      initial={{ width: 0 }}
-                      animate={{ width: `${downloadProgress}%` }}
-                      transition={{ duration: 0.3 }}
-                    />
-                  </div>
-                  <div className="flex justify-between text-sm text-gray-600">
-                    <span>{downloadProgress}%</span>
-                    <span>{estimatedTime}</span>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-          </div>
-
-          <motion.button
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            type="submit"
-            disabled={isLoading}
-            className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isLoading ? (
-              <span className="flex items-center">
-                <FaBolt className="mr-2 animate-pulse" />
-                Downloading...
-              </span>
-            ) : (
-              <span className="flex items-center">
-                <FaDownload className="mr-2" />
-                Download
-              </span>
-            )}
-          </motion.button>
-        </form>
-
-        {error && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="mt-4 p-4 bg-red-100 text-red-700 rounded-lg"
-          >
-            {error}
-          </motion.div>
-        )}
-
-        {torrentInfo && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="mt-4 p-4 bg-blue-50 rounded-lg"
-          >
-            <div className="flex items-center">
-              <FaMagnet className="text-blue-500 mr-2" />
-              <h3 className="text-lg font-semibold text-blue-700">Torrent File Detected</h3>
-            </div>
-            <p className="mt-2 text-sm text-blue-600">
-              This is a torrent file. You can use your preferred torrent client to download it.
-            </p>
-            <div className="mt-4">
-              <a
-                href={url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-sm text-blue-500 hover:text-blue-700"
-              >
-                Open torrent file
-              </a>
-            </div>
-          </motion.div>
-        )}
-
-        {largeFileInfo && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="mt-8 p-6 bg-gray-800 rounded-lg shadow-lg"
-          >
-            <div className="flex items-center gap-4 mb-4">
-              <FaFileAlt className="text-3xl text-blue-500" />
-              <h3 className="text-xl font-semibold">Large File Detected</h3>
-            </div>
-            <p className="mb-4">
-              This file is too large to download at once. It will be split into {totalParts} parts.
-            </p>
-            <div className="flex items-center gap-4">
-              <button
-                onClick={handleSubmit}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
-              >
-                {downloadSpeed === 'fast' && !partUnlocked[currentPart] ? (
-                  'Watch Ad to Unlock Fast Download'
-                ) : (
-                  `Download Part ${currentPart} of ${totalParts}`
-                )}
-              </button>
-              {currentPart < totalParts && (
-                <button
-                  onClick={handleNextPart}
-                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg transition-colors"
-                >
-                  Next Part
-                </button>
-              )}
-            </div>
-          </motion.div>
-        )}
-
-        <AnimatePresence>
-          {showAd && (
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center"
-            >
-              <motion.div
-                initial={{ scale: 0.9, opacity: 0 }}
-                animate={{ scale: 1, opacity: 1 }}
-                exit={{ scale: 0.9, opacity: 0 }}
-                className="bg-white p-6 rounded-lg max-w-md w-full mx-4"
-              >
-                <h3 className="text-xl font-semibold mb-4">Watch Ad for Fast Download</h3>
-                <div className="aspect-video bg-gray-200 rounded-lg mb-4 flex items-center justify-center">
-                  <span className="text-gray-500">Ad Video Player</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
-                  <motion.div 
-                    className="bg-blue-600 h-2.5 rounded-full transition-all duration-300" 
-                    style={{ width: `${adProgress}%` }}
-                    initial={{ width: 0 }}
-                    animate={{ width: `${adProgress}%` }}
-                    transition={{ duration: 0.3 }}
-                  />
-                </div>
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={handleAdComplete}
-                  className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                >
-                  Complete Ad & Download
-                </motion.button>
-              </motion.div>
-            </motion.div>
-          )}
-        </AnimatePresence>
-      </motion.div>
-    </main>
-  );
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { FaDownload, FaHistory, FaLock, FaBolt, FaTachometerAlt, FaMagnet, FaFileAlt, FaFilm, FaListUl } from 'react-icons/fa';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SessionManager } from './utils/sessionManager';
+import { FilenameResolver } from './utils/filenameResolver';
+import { ManifestVerifier } from './utils/manifestVerifier';
+import { MultipartDownload } from './utils/multipartDownload';
+import { LinkList, MAX_BATCH_URLS } from './utils/linkList';
+import type { DownloadProgress } from './utils/progressTracker';
+import type { HlsVariant } from './utils/hlsDownloader';
+import type { DashRepresentation } from './utils/dashDownloader';
+import type { TorrentMetadata, TorrentFile } from './utils/torrentParser';
+import type { DownloadManifest } from './utils/partManifest';
+import type { QueuedDownload, QueueAction } from './utils/downloadQueue';
+import type { BatchResult } from './utils/batchDownload';
+import type { DownloadErrorCode } from './utils/downloadError';
+import type { HistoryEntry, HistoryPage } from './utils/downloadHistory';
+import type { Inspection } from './utils/contentInspector';
+import type { MediaCandidate } from './utils/mediaExtractor';
+
+// Debounce function to limit API calls
+const debounce = (func: Function, wait: number) => {
+  let timeout: ReturnType<typeof setTimeout>;
+  return (...args: any[]) => {
+    clearTimeout(timeout);
+    timeout = setTimeout(() => func(...args), wait);
+  };
+};
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds} seconds`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const QUEUE_POLL_INTERVAL = 2000; // 2 seconds while anything is queued or running
+const HISTORY_TYPES = ['file', 'video', 'audio', 'image', 'torrent', 'hls', 'dash', 'page'];
+const MAX_RETRIES = 3;
+
+// What the user can do about each error the download API reports
+const ERROR_GUIDANCE: Record<DownloadErrorCode, string> = {
+  invalid_request: 'Something went wrong sending the request. Reload the page and try again.',
+  invalid_url: 'Check that the link is a complete http:// or https:// address.',
+  blocked_url: 'This address points to a private or local network and cannot be downloaded.',
+  invalid_part: 'That part does not exist for this file. Start again from part 1.',
+  unknown_variant: 'That quality option is no longer available. Load the stream again and pick another.',
+  unsupported_content: 'This stream cannot be downloaded in the selected format.',
+  job_not_found: 'The progress tracker expired. Start the download again.',
+  history_mode_required: 'Queued downloads are stored on the server. Switch to History Mode to use the queue.',
+  rate_limited: 'Too many requests from your network. Wait a moment and try again.',
+  limit_reached: 'You have reached your download limit. Watch an ad to continue.',
+  fast_locked: 'Watch the ad to unlock fast download for this part.',
+  dns_failure: 'The website could not be found. Check the link for typos.',
+  connection_failed: 'The website could not be reached. Try again in a few minutes.',
+  tls_error: 'The website has an invalid security certificate, so the download was stopped.',
+  upstream_timeout: 'The website is responding too slowly. Try again later.',
+  upstream_not_found: 'The file no longer exists at this link. Ask for an updated link.',
+  upstream_forbidden: 'The website refused access. The link may have expired or need a login.',
+  upstream_rate_limited: 'The website is limiting downloads. Wait a little and try again.',
+  upstream_rejected: 'The website rejected the download request.',
+  upstream_error: 'The website had a problem serving the file. Try again later.',
+  too_large: 'The file is larger than this service can download.',
+  range_not_supported: 'The website does not allow partial downloads, so this file cannot be split.',
+  internal_error: 'Something went wrong on our side. Try again later.',
+};
+
+// Error bodies from the download API; older responses may lack a code
+interface ApiError {
+  error?: string;
+  code?: DownloadErrorCode;
+  retryable?: boolean;
+  retryAfter?: number;
+  resetAt?: string | null; // quota errors: when the oldest counted download expires
+}
+
+const describeApiError = (data: ApiError) => {
+  const guidance = data.code && ERROR_GUIDANCE[data.code];
+  const reset = data.code === 'limit_reached' && data.resetAt
+    ? ` More downloads free up at ${new Date(data.resetAt).toLocaleTimeString()}.`
+    : '';
+  if (!guidance) return (data.error || 'Download failed') + reset;
+  return (data.error ? `${data.error.replace(/\.$/, '')}. ${guidance}` : guidance) + reset;
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(href);
+};
+
+interface TorrentInfo extends TorrentMetadata {
+  type: 'torrent';
+  url: string;
+  fileCount: number;
+}
+
+interface SubmitOptions {
+  representation?: string;
+  targetUrl?: string;
+  part?: number;
+  unlockToken?: string; // from a completed ad, for fast downloads
+  attempt?: number; // retries already made for this download
+}
+
+// Matches the server: unlocks are per part, and a file that is not split is part 1
+const unlockKey = (url: string, part?: number) => `${url}#part${part || 1}`;
+
+interface HistoryFilter {
+  type: string;
+  from: string;
+  to: string;
+  domain: string;
+}
+
+interface HlsInfo {
+  type: 'hls';
+  url: string;
+  variants: HlsVariant[];
+}
+
+interface DashInfo {
+  type: 'dash';
+  url: string;
+  isLive: boolean;
+  duration: number | null;
+  video: DashRepresentation[];
+  audio: DashRepresentation[];
+}
+
+interface PageInfo {
+  type: 'page';
+  url: string;
+  candidates: MediaCandidate[];
+}
+
+interface LargeFileInfo {
+  type: 'large_file';
+  totalSize: number;
+  suggestedPartSize: number;
+  canSplit: boolean;
+  filename: string;
+  version: string | null;
+}
+
+export default function Home() {
+  const [url, setUrl] = useState('');
+  const [mode, setMode] = useState<'private' | 'history'>('private');
+  const [isLoading, setIsLoading] = useState(false);
+  const [downloadSpeed, setDownloadSpeed] = useState<'slow' | 'fast'>('slow');
+  const [showAd, setShowAd] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+  const [estimatedTime, setEstimatedTime] = useState('');
+  const [adProgress, setAdProgress] = useState(0);
+  const [error, setError] = useState('');
+  const [torrentInfo, setTorrentInfo] = useState<TorrentInfo | null>(null);
+  const [largeFileInfo, setLargeFileInfo] = useState<LargeFileInfo | null>(null);
+  const [hlsInfo, setHlsInfo] = useState<HlsInfo | null>(null);
+  const [selectedVariant, setSelectedVariant] = useState(0);
+  const [dashInfo, setDashInfo] = useState<DashInfo | null>(null);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [selectedVideo, setSelectedVideo] = useState('');
+  const [selectedAudio, setSelectedAudio] = useState('');
+  const [currentPart, setCurrentPart] = useState(1);
+  const [totalParts, setTotalParts] = useState(1);
+  const [unlockTokens, setUnlockTokens] = useState<Record<string, string>>({});
+  const [isLargeFile, setIsLargeFile] = useState(false);
+  const [verifyStatus, setVerifyStatus] = useState('');
+  const [allPartsStatus, setAllPartsStatus] = useState('');
+  const [allPartsDownload, setAllPartsDownload] = useState<AbortController | null>(null);
+  const [queue, setQueue] = useState<QueuedDownload[]>([]);
+  const [batchUrls, setBatchUrls] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<HistoryPage | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({ type: '', from: '', to: '', domain: '' });
+  const [historyPage, setHistoryPage] = useState(1);
+  const [preview, setPreview] = useState<Inspection | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const progressSource = useRef<EventSource | null>(null);
+  const pendingSubmit = useRef<SubmitOptions>({});
+  const adSession = useRef<{ token: string; url: string; part?: number } | null>(null);
+
+  // Debounced URL validation, then a dry run of the download for the preview card
+  const validateUrl = useCallback(
+    debounce(async (url: string, mode: string) => {
+      setPreview(null);
+      if (!url) return;
+      
+      try {
+        const response = await fetch('/api/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url, mode }),
+        });
+        
+        const result = await response.json();
+        if (!response.ok || !result.valid) {
+          setError(result.error || 'Invalid URL or resource not available');
+          return;
+        }
+        setError('');
+      } catch (err) {
+        setError('Failed to validate URL');
+        return;
+      }
+
+      setIsInspecting(true);
+      try {
+        const response = await fetch(`/api/inspect?${new URLSearchParams({ url, mode })}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(describeApiError(data));
+          return;
+        }
+        setPreview(data);
+      } catch (err) {
+        setError('Failed to inspect URL');
+      } finally {
+        setIsInspecting(false);
+      }
+    }, 500),
+    []
+  );
+
+  useEffect(() => {
+    validateUrl(url, mode);
+  }, [url, mode, validateUrl]);
+
+  const stopProgress = () => {
+    progressSource.current?.close();
+    progressSource.current = null;
+  };
+
+  // Follow real server-side progress for a download job
+  const watchProgress = (jobId: string, sessionId: string) => {
+    stopProgress();
+
+    const source = new EventSource(`/api/jobs/${jobId}/progress?sessionId=${encodeURIComponent(sessionId)}`);
+    source.addEventListener('progress', (event: Event) => {
+      const progress: DownloadProgress = JSON.parse((event as MessageEvent).data);
+
+      if (progress.totalBytes) {
+        setDownloadProgress(Math.min(100, Math.floor((progress.bytesTransferred / progress.totalBytes) * 100)));
+      }
+
+      if (progress.status !== 'downloading') {
+        setEstimatedTime('');
+      } else if (progress.speed === 0 && progress.bytesTransferred > 0) {
+        setEstimatedTime('Stalled, waiting for data...');
+      } else if (progress.eta !== null) {
+        setEstimatedTime(`${formatDuration(progress.eta)} remaining (${formatBytes(progress.speed)}/s)`);
+      } else {
+        setEstimatedTime(`${formatBytes(progress.bytesTransferred)} at ${formatBytes(progress.speed)}/s`);
+      }
+
+      if (['completed', 'failed', 'cancelled'].includes(progress.status)) {
+        stopProgress();
+      }
+    });
+    source.addEventListener('gone', stopProgress);
+    progressSource.current = source;
+  };
+
+  useEffect(() => stopProgress, []);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/queue?sessionId=${encodeURIComponent(SessionManager.getSessionId())}`);
+      if (response.ok) {
+        const data = await response.json();
+        setQueue(data.jobs);
+      }
+    } catch (err) {
+      console.error('Failed to load download queue:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Only poll while the worker still has something to do
+  const queueActive = queue.some((job: QueuedDownload) => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    if (!queueActive) return;
+    const interval = setInterval(loadQueue, QUEUE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [queueActive, loadQueue]);
+
+  const historyQuery = (extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams({ sessionId: SessionManager.getSessionId(), ...extra });
+    for (const [key, value] of Object.entries(historyFilter)) {
+      if (value) params.set(key, value);
+    }
+    return params.toString();
+  };
+
+  const loadHistory = async () => {
+    try {
+      const response = await fetch(`/api/history?${historyQuery({ page: String(historyPage) })}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load download history');
+      setHistory(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load download history');
+    }
+  };
+
+  // Sends the local history to the server and keeps the merged result locally
+  const syncHistory = async () => {
+    try {
+      const response = await fetch('/api/history/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: SessionManager.getSessionId(), entries: SessionManager.getHistory() }),
+      });
+      if (!response.ok) return;
+      const { entries } = await response.json();
+      SessionManager.replaceHistory(entries.reverse().map(({ url, type, timestamp }: HistoryEntry) => ({ url, type, timestamp })));
+    } catch (err) {
+      console.error('Failed to sync download history:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!showHistory) return;
+    syncHistory().then(loadHistory);
+  }, [showHistory]);
+
+  useEffect(() => {
+    if (showHistory) loadHistory();
+  }, [historyFilter, historyPage]);
+
+  const updateHistoryFilter = (update: Partial<HistoryFilter>) => {
+    setHistoryFilter((prev: HistoryFilter) => ({ ...prev, ...update }));
+    setHistoryPage(1);
+  };
+
+  const deleteHistoryEntry = async (entry: HistoryEntry) => {
+    try {
+      const response = await fetch(`/api/history/${entry.id}?sessionId=${encodeURIComponent(SessionManager.getSessionId())}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to delete history entry');
+      }
+      SessionManager.removeFromHistory(entry.url, entry.timestamp);
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete history entry');
+    }
+  };
+
+  const clearAllHistory = async () => {
+    if (!window.confirm('Delete your whole download history?')) return;
+
+    try {
+      const response = await fetch(`/api/history?sessionId=${encodeURIComponent(SessionManager.getSessionId())}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to clear download history');
+      }
+      SessionManager.clearHistory();
+      setHistoryPage(1);
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear download history');
+    }
+  };
+
+  // Part and track entries are recorded as url#part2 or url#<representation>
+  const downloadAgain = (entry: HistoryEntry) => {
+    const sourceUrl = entry.url.replace(/#.*$/, '');
+    setUrl(sourceUrl);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    handleSubmit(new Event('submit') as any, { targetUrl: sourceUrl });
+  };
+
+  const handleAddToQueue = async () => {
+    if (!url) return;
+    setError('');
+
+    try {
+      const response = await fetch('/api/queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, sessionId: SessionManager.getSessionId(), mode }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to queue download');
+      }
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue download');
+    }
+  };
+
+  const updateQueuedDownload = async (id: string, action: QueueAction | 'delete') => {
+    const sessionId = SessionManager.getSessionId();
+
+    try {
+      const response = action === 'delete'
+        ? await fetch(`/api/queue/${id}?sessionId=${encodeURIComponent(sessionId)}`, { method: 'DELETE' })
+        : await fetch(`/api/queue/${id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ sessionId, action }),
+          });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update download');
+      }
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update download');
+    }
+  };
+
+  const addBatchLinks = (links: string[]) => {
+    if (links.length === 0) {
+      setError('No links found');
+      return;
+    }
+
+    const merged = batchUrls.concat(links.filter(link => !batchUrls.includes(link)));
+    if (merged.length > MAX_BATCH_URLS) {
+      setError(`A batch can hold at most ${MAX_BATCH_URLS} links; the rest were left out`);
+    }
+    setBatchUrls(merged.slice(0, MAX_BATCH_URLS));
+  };
+
+  // Pasting several links at once starts a batch instead of filling the field
+  const handleUrlPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const links = LinkList.parse(e.clipboardData.getData('text'));
+    if (links.length > 1) {
+      e.preventDefault();
+      addBatchLinks(links);
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    let links = LinkList.parse(e.dataTransfer.getData('text'));
+    for (const file of Array.from(e.dataTransfer.files)) {
+      links = links.concat(LinkList.parse(await file.text(), LinkList.formatOf(file.name)));
+    }
+    addBatchLinks(Array.from(new Set(links)));
+  };
+
+  const handleBatchQueue = async () => {
+    setError('');
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: batchUrls, sessionId: SessionManager.getSessionId(), mode, output: 'queue' }),
+      });
+      const data = await response.json();
+      if (!data.results) {
+        throw new Error(data.error || 'Batch download failed');
+      }
+
+      const failed = (data.results as BatchResult[]).filter(result => result.error);
+      setBatchUrls(failed.map(result => result.url));
+      if (failed.length > 0) {
+        setError(`${failed.length} link(s) could not be queued: ${failed.map(result => result.error).join('; ')}`);
+      }
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Batch download failed');
+    }
+  };
+
+  // A native form post lets the browser stream the archive straight to disk
+  const handleBatchZip = () => {
+    const form = document.createElement('form');
+    form.method = 'POST';
+    form.action = '/api/batch';
+    form.enctype = 'multipart/form-data';
+
+    const fields: Record<string, string> = {
+      urls: batchUrls.join('\n'),
+      sessionId: SessionManager.getSessionId(),
+      mode,
+      output: 'zip',
+    };
+    for (const [name, value] of Object.entries(fields)) {
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = name;
+      input.value = value;
+      form.appendChild(input);
+    }
+
+    document.body.appendChild(form);
+    form.submit();
+    form.remove();
+  };
+
+  const queuedFileUrl = (job: QueuedDownload) =>
+    `/api/queue/${job.id}/file?sessionId=${encodeURIComponent(SessionManager.getSessionId())}&downloadSpeed=${downloadSpeed}`;
+
+  // Simulate ad progress; the server times the watch itself, so this only
+  // decides when the button can be pressed
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval>;
+    if (showAd) {
+      interval = setInterval(() => {
+        setAdProgress((prev: number) => {
+          if (prev >= 100) {
+            clearInterval(interval);
+            return 100;
+          }
+          return prev + 20; // 5 seconds total
+        });
+      }, 1000);
+    }
+    return () => clearInterval(interval);
+  }, [showAd]);
+
+  const startAd = async (options: SubmitOptions, downloadUrl: string) => {
+    const response = await fetch('/api/ads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: SessionManager.getSessionId(), url: downloadUrl, part: options.part }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not load the ad');
+    }
+
+    adSession.current = { token: data.token, url: downloadUrl, part: options.part };
+    pendingSubmit.current = options;
+    setAdProgress(0);
+    setShowAd(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent, options: SubmitOptions = {}) => {
+    e.preventDefault();
+    const { representation, targetUrl, part, attempt = 0 } = options;
+    const downloadUrl = targetUrl || url;
+    const unlockToken = options.unlockToken || unlockTokens[unlockKey(downloadUrl, part)];
+
+    setError('');
+    setIsLoading(true);
+    // Picking media from a page or a torrent's web seed keeps its list open
+    if (!targetUrl) {
+      setTorrentInfo(null);
+      setPageInfo(null);
+    }
+    // Part downloads keep the large file panel so the next part can follow
+    if (!part) {
+      setLargeFileInfo(null);
+    }
+    setHlsInfo(null);
+    if (!representation) {
+      setDashInfo(null);
+    }
+    setDownloadProgress(0);
+    setEstimatedTime('');
+
+    if (downloadSpeed === 'fast' && !unlockToken) {
+      try {
+        await startAd(options, downloadUrl);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not load the ad');
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    try {
+      const sessionId = SessionManager.getSessionId();
+
+      const jobResponse = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: downloadUrl, sessionId, mode }),
+      });
+      const job = jobResponse.ok ? await jobResponse.json() : null;
+      if (job) {
+        watchProgress(job.id, sessionId);
+      }
+
+      const response = await fetch('/api/download', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url: downloadUrl,
+          mode,
+          downloadSpeed,
+          sessionId,
+          partSize: part,
+          variant: hlsInfo && hlsInfo.url === downloadUrl ? selectedVariant : undefined,
+          representation,
+          jobId: job?.id,
+          unlockToken: downloadSpeed === 'fast' ? unlockToken : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json().catch(() => ({}));
+
+        // An expired or revoked unlock means the next attempt shows the ad again
+        if (errorData.code === 'fast_locked') {
+          setUnlockTokens((prev: Record<string, string>) => {
+            const next = { ...prev };
+            delete next[unlockKey(downloadUrl, part)];
+            return next;
+          });
+        }
+
+        // Only transient failures are retried; the server says which those are
+        if (errorData.retryable && attempt < MAX_RETRIES) {
+          const delay = errorData.retryAfter !== undefined ? errorData.retryAfter : Math.pow(2, attempt);
+          stopProgress();
+          setError(`${describeApiError(errorData)} Retrying in ${delay}s...`);
+          await new Promise(resolve => setTimeout(resolve, delay * 1000));
+          await handleSubmit(e, { ...options, unlockToken, attempt: attempt + 1 });
+          return;
+        }
+
+        throw new Error(describeApiError(errorData));
+      }
+
+      const contentType = response.headers.get('content-type');
+      
+      if (contentType?.includes('application/json')) {
+        stopProgress();
+        const data = await response.json();
+        
+        if (data.type === 'torrent') {
+          setTorrentInfo(data);
+          setIsLargeFile(false);
+        } else if (data.type === 'large_file') {
+          setLargeFileInfo(data);
+          setTotalParts(Math.ceil(data.totalSize / data.suggestedPartSize));
+          setUnlockTokens({});
+          setIsLargeFile(true);
+        } else if (data.type === 'dash') {
+          setDashInfo(data);
+          setSelectedVideo(data.video[0]?.id || '');
+          setSelectedAudio(data.audio[0]?.id || '');
+          setIsLargeFile(false);
+        } else if (data.type === 'hls') {
+          setHlsInfo(data);
+          setSelectedVariant(0);
+          setIsLargeFile(false);
+        } else if (data.type === 'page') {
+          setPageInfo(data);
+          setIsLargeFile(false);
+        }
+      } else {
+        // Whole-file responses are always under the 5GB split threshold
+        if (!part) {
+          setIsLargeFile(false);
+
+          if (mode === 'history') {
+            setError('History mode is only available for files larger than 5GB');
+            setIsLoading(false);
+            return;
+          }
+        }
+        
+        const filename = FilenameResolver.parseContentDisposition(response.headers.get('content-disposition'));
+        saveBlob(await response.blob(), filename || 'download');
+
+        if (mode === 'history' && showHistory) {
+          syncHistory().then(loadHistory);
+        }
+      }
+    } catch (err) {
+      stopProgress();
+      setError(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The server checks how long the ad actually played before it signs an unlock
+  const handleAdComplete = async () => {
+    const options = pendingSubmit.current;
+    const session = adSession.current;
+    pendingSubmit.current = {};
+    adSession.current = null;
+    setShowAd(false);
+    if (!session) return;
+
+    try {
+      const response = await fetch('/api/ads/complete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: SessionManager.getSessionId(),
+          url: session.url,
+          part: session.part,
+          token: session.token,
+          mode,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'The ad could not be verified');
+      }
+
+      setUnlockTokens((prev: Record<string, string>) => ({
+        ...prev,
+        [unlockKey(session.url, session.part)]: data.unlockToken,
+      }));
+      handleSubmit(new Event('submit') as any, { ...options, unlockToken: data.unlockToken });
+    } catch (err) {
+      setError(err instanceof Error ? `${err.message}. Watch the ad again to unlock fast download.` : 'The ad could not be verified');
+      setIsLoading(false);
+    }
+  };
+
+  const manifestUrl = () =>
+    `/api/manifest?url=${encodeURIComponent(url)}&sessionId=${encodeURIComponent(SessionManager.getSessionId())}`;
+
+  const verifyLocalFile = async (file: File) => {
+    try {
+      setVerifyStatus('Loading manifest...');
+      const response = await fetch(manifestUrl());
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Manifest not available');
+      }
+      const manifest: DownloadManifest = await response.json();
+
+      const result = await ManifestVerifier.verify(file, manifest, (bytesRead) => {
+        setVerifyStatus(`Checking... ${Math.round((bytesRead / manifest.totalSize) * 100)}%`);
+      });
+
+      if (!result.sizeMatches) {
+        setVerifyStatus(`Size mismatch: expected ${formatBytes(manifest.totalSize)}, got ${formatBytes(file.size)}`);
+      } else if (!result.valid) {
+        const broken = result.parts.filter(part => part.status === 'mismatch').map(part => part.partNumber);
+        setVerifyStatus(broken.length > 0
+          ? `Corrupted part(s): ${broken.join(', ')}. Download them again.`
+          : 'The file does not match the checksum published by the source.');
+      } else {
+        const unchecked = result.parts.filter(part => part.status === 'unknown').length;
+        setVerifyStatus(unchecked > 0
+          ? `No errors found, but ${unchecked} part(s) have no checksum yet.`
+          : 'File verified: every part matches.');
+      }
+    } catch (err) {
+      setVerifyStatus(err instanceof Error ? err.message : 'Verification failed');
+    }
+  };
+
+  const handleNextPart = (e: React.MouseEvent) => {
+    if (currentPart < totalParts) {
+      const next = currentPart + 1;
+      setCurrentPart(next);
+      handleSubmit(e, { part: next });
+    }
+  };
+
+  // Fetches every part in order and writes them into a single file
+  const handleDownloadAll = async () => {
+    if (!largeFileInfo) return;
+
+    const plan = {
+      url,
+      filename: largeFileInfo.filename,
+      totalSize: largeFileInfo.totalSize,
+      partSize: largeFileInfo.suggestedPartSize,
+      totalParts,
+      version: largeFileInfo.version,
+    };
+    const options = {
+      sessionId: SessionManager.getSessionId(),
+      mode,
+      // Parts whose ad has not been watched go at the free speed
+      speedForPart: (partNumber: number) =>
+        downloadSpeed === 'fast' && unlockTokens[unlockKey(url, partNumber)] ? 'fast' as const : 'slow' as const,
+      unlockTokenForPart: (partNumber: number) => unlockTokens[unlockKey(url, partNumber)],
+    };
+
+    if (!MultipartDownload.isSupported()) {
+      MultipartDownload.startBrowserDownloads(plan, options);
+      setAllPartsStatus(
+        `Your browser will save ${totalParts} part files. Join them in order ` +
+        `(cat ${largeFileInfo.filename}.part* > ${largeFileInfo.filename}, or copy /b on Windows), ` +
+        'then check the result with "Verify reassembled file".'
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    setAllPartsDownload(controller);
+    setError('');
+    setAllPartsStatus('Choose where to save the file...');
+
+    try {
+      await MultipartDownload.saveToDisk(plan, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setAllPartsStatus(
+            `Part ${progress.partNumber} of ${progress.totalParts}: ` +
+            `${formatBytes(progress.bytesWritten)} of ${formatBytes(progress.totalSize)}`
+          );
+        },
+      });
+      setAllPartsStatus(`All ${totalParts} parts saved to ${largeFileInfo.filename}`);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setAllPartsStatus('Paused. Download all parts again to resume from the last finished part.');
+      } else if (err instanceof DOMException && err.name === 'AbortError') {
+        setAllPartsStatus(''); // save dialog dismissed
+      } else {
+        setAllPartsStatus('');
+        setError(err instanceof Error ? err.message : 'Download failed');
+      }
+    } finally {
+      setAllPartsDownload(null);
+    }
+  };
+
+  const savedAllParts = largeFileInfo ? MultipartDownload.getSaved(url) : null;
+  // A preview for a link the user has since changed does not count
+  const currentPreview = preview && preview.url === url ? preview : null;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div 
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-md mx-auto bg-white rounded-xl shadow-lg p-8"
+      >
+        <h1 className="text-3xl font-bold text-center mb-8 text-gray-800">Universal Downloader</h1>
+        
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Download Mode</label>
+          <div className="flex items-center space-x-4">
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setMode('history')}
+              className={`flex-1 flex items-center justify-center px-4 py-2 rounded-lg transition-colors ${
+                mode === 'history' 
+                  ? 'bg-blue-500 text-white shadow-md' 
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              } ${!isLargeFile ? 'opacity-50 cursor-not-allowed' : ''}`}
+              disabled={!isLargeFile}
+              title={!isLargeFile ? 'History mode is only available for files larger than 5GB' : ''}
+            >
+              <FaHistory className="mr-2" />
+              History Mode
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setMode('private')}
+              className={`flex-1 flex items-center justify-center px-4 py-2 rounded-lg transition-colors ${
+                mode === 'private' 
+                  ? 'bg-blue-500 text-white shadow-md' 
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              <FaLock className="mr-2" />
+              Private Mode
+            </motion.button>
+          </div>
+          {!isLargeFile && mode === 'history' && (
+            <p className="mt-2 text-sm text-red-500">
+              History mode is only available for files larger than 5GB
+            </p>
+          )}
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          onDragOver={(e: React.DragEvent<HTMLFormElement>) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`space-y-6 rounded-lg transition-colors ${isDragging ? 'ring-2 ring-blue-400 ring-offset-4' : ''}`}
+        >
+          <div>
+            <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-2">
+              Paste your URL
+            </label>
+            <motion.input
+              whileFocus={{ scale: 1.01 }}
+              type="url"
+              id="url"
+              value={url}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)}
+              onPaste={handleUrlPaste}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+              placeholder="https://example.com/file.pdf"
+              required
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Paste several links, or drop a .txt or .csv file of links here, to download them together.
+            </p>
+          </div>
+
+          {batchUrls.length > 0 && (
+            <div className="p-4 bg-gray-50 rounded-lg text-sm">
+              <div className="flex justify-between mb-2">
+                <span className="font-medium text-gray-800">{batchUrls.length} link(s) in this batch</span>
+                <button type="button" onClick={() => setBatchUrls([])} className="text-red-600">
+                  Clear
+                </button>
+              </div>
+              <ul className="max-h-32 overflow-y-auto space-y-1 text-gray-600">
+                {batchUrls.map((link: string) => (
+                  <li key={link} className="truncate" title={link}>{link}</li>
+                ))}
+              </ul>
+              <div className="mt-3 flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleBatchQueue}
+                  disabled={mode === 'private'}
+                  title={mode === 'private' ? 'Queued links are stored on the server, so queueing needs History Mode' : ''}
+                  className="flex-1 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Add All to Queue
+                </button>
+                <button
+                  type="button"
+                  onClick={handleBatchZip}
+                  className="flex-1 py-2 rounded-lg text-white bg-purple-600 hover:bg-purple-700 transition-colors"
+                >
+                  Download as ZIP
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <motion.input
+                  whileTap={{ scale: 0.95 }}
+                  type="checkbox"
+                  id="fastDownload"
+                  checked={downloadSpeed === 'fast'}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDownloadSpeed(e.target.checked ? 'fast' : 'slow')}
+                  className="h-5 w-5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="fastDownload" className="ml-2 block text-sm text-gray-900">
+                  Enable fast download
+                </label>
+              </div>
+              <div className="flex items-center text-sm text-gray-600">
+                <FaTachometerAlt className="mr-1" />
+                {downloadSpeed === 'fast' ? 'Fast (10MB/s)' : 'Slow (100KB/s)'}
+              </div>
+            </div>
+
+            <AnimatePresence>
+              {isLoading && (
+                <motion.div
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="space-y-2"
+                >
+                  <div className="w-full bg-gray-200 rounded-full h-2.5">
+                    <motion.div 
+                      className="bg-blue-600 h-2.5 rounded-full transition-all duration-300" 
+                      style={{ width: `${downloadProgress}%` }}
+                      initial={{ width: 0 }}
+                      animate={{ width: `${downloadProgress}%` }}
+                      transition={{ duration: 0.3 }}
+                    />
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>{downloadProgress}%</span>
+                    <span>{estimatedTime}</span>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+
+          <AnimatePresence>
+            {currentPreview && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className="p-4 bg-gray-50 rounded-lg text-sm"
+              >
+                <div className="flex items-center mb-2">
+                  {currentPreview.type === 'torrent' ? <FaMagnet className="text-blue-500 mr-2" />
+                    : currentPreview.media ? <FaFilm className="text-purple-500 mr-2" />
+                    : <FaFileAlt className="text-gray-500 mr-2" />}
+                  <span className="font-medium text-gray-800 truncate" title={currentPreview.filename || currentPreview.finalUrl}>
+                    {currentPreview.filename || 'Stream'}
+                  </span>
+                </div>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-gray-600">
+                  <dt className="font-medium">Size</dt>
+                  <dd>{currentPreview.size !== null ? formatBytes(currentPreview.size) : 'Unknown'}</dd>
+                  <dt className="font-medium">Type</dt>
+                  <dd>{currentPreview.mimeType}{currentPreview.confidence === 'high' ? ' (from the file itself)' : ''}</dd>
+                  {currentPreview.finalUrl !== currentPreview.url && (
+                    <>
+                      <dt className="font-medium">Redirects to</dt>
+                      <dd className="break-all">{currentPreview.finalUrl}</dd>
+                    </>
+                  )}
+                  {currentPreview.type !== 'torrent' && (
+                    <>
+                      <dt className="font-medium">Resumable</dt>
+                      <dd>{currentPreview.acceptsRanges === null ? 'Unknown' : currentPreview.acceptsRanges ? 'Yes' : 'No'}</dd>
+                    </>
+                  )}
+                  {currentPreview.etag && (
+                    <>
+                      <dt className="font-medium">ETag</dt>
+                      <dd className="font-mono break-all">{currentPreview.etag}</dd>
+                    </>
+                  )}
+                  {currentPreview.parts.length > 1 && (
+                    <>
+                      <dt className="font-medium">Parts</dt>
+                      <dd>
+                        {currentPreview.parts.length} parts of up to {formatBytes(currentPreview.parts[0].size)}
+                        {!currentPreview.canSplit && ' (the server does not allow splitting)'}
+                      </dd>
+                    </>
+                  )}
+                  {currentPreview.media?.kind === 'hls_master' && (
+                    <>
+                      <dt className="font-medium">Qualities</dt>
+                      <dd>{currentPreview.media.variants.map((variant: HlsVariant) => variant.resolution || `${Math.round(variant.bandwidth / 1000)} kbps`).join(', ')}</dd>
+                    </>
+                  )}
+                  {currentPreview.media?.kind === 'hls_media' && (
+                    <>
+                      <dt className="font-medium">Stream</dt>
+                      <dd>
+                        {currentPreview.media.segmentCount} segments
+                        {currentPreview.media.isLive ? ', live' : `, ${formatDuration(Math.round(currentPreview.media.duration))}`}
+                      </dd>
+                    </>
+                  )}
+                  {currentPreview.media?.kind === 'dash' && (
+                    <>
+                      <dt className="font-medium">Tracks</dt>
+                      <dd>
+                        {currentPreview.media.video.length} video, {currentPreview.media.audio.length} audio
+                        {currentPreview.media.isLive ? ', live' : currentPreview.media.duration ? `, ${formatDuration(Math.round(currentPreview.media.duration))}` : ''}
+                      </dd>
+                    </>
+                  )}
+                  {currentPreview.media?.kind === 'page' && (
+                    <>
+                      <dt className="font-medium">Media</dt>
+                      <dd>
+                        {currentPreview.media.candidates.length > 0
+                          ? `${currentPreview.media.candidates.length} found on this page`
+                          : 'None found; the page itself will be saved'}
+                      </dd>
+                    </>
+                  )}
+                  {currentPreview.torrent && (
+                    <>
+                      <dt className="font-medium">Files</dt>
+                      <dd>{currentPreview.torrent.fileCount}{currentPreview.torrent.isPrivate ? ' (private torrent)' : ''}</dd>
+                    </>
+                  )}
+                </dl>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            type="submit"
+            disabled={isLoading || !currentPreview}
+            className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? (
+              <span className="flex items-center">
+                <FaBolt className="mr-2 animate-pulse" />
+                Downloading...
+              </span>
+            ) : isInspecting ? (
+              <span className="flex items-center">
+                <FaFileAlt className="mr-2 animate-pulse" />
+                Checking link...
+              </span>
+            ) : (
+              <span className="flex items-center">
+                <FaDownload className="mr-2" />
+                Download
+              </span>
+            )}
+          </motion.button>
+          <button
+            type="button"
+            onClick={handleAddToQueue}
+            disabled={!url || mode === 'private'}
+            title={mode === 'private' ? 'Queued links are stored on the server, so queueing needs History Mode' : ''}
+            className="w-full flex justify-center items-center py-2 px-4 rounded-lg text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 transition-colors disabled:opacity-50"
+          >
+            <FaListUl className="mr-2" />
+            Add to Queue
+          </button>
+        </form>
+
+        {queue.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">Download Queue</h3>
+            <ul className="space-y-3">
+              {queue.map((job: QueuedDownload) => (
+                <li key={job.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <div className="flex justify-between gap-2">
+                    <span className="truncate font-medium text-gray-800" title={job.url}>{job.filename}</span>
+                    <span className="text-gray-500 capitalize">{job.status}</span>
+                  </div>
+                  {job.totalBytes !== null && (
+                    <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                      <div
+                        className="bg-blue-600 h-1.5 rounded-full"
+                        style={{ width: `${Math.min(100, (job.bytesDownloaded / Math.max(job.totalBytes, 1)) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                  <div className="mt-1 text-gray-500">
+                    {formatBytes(job.bytesDownloaded)}{job.totalBytes !== null && ` of ${formatBytes(job.totalBytes)}`}
+                    {job.nextAttemptAt && ` · retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()}`}
+                  </div>
+                  {job.error && <div className="mt-1 text-red-600">{job.error}</div>}
+                  <div className="mt-2 flex flex-wrap gap-3 text-blue-600">
+                    {(job.status === 'queued' || job.status === 'running') && (
+                      <button onClick={() => updateQueuedDownload(job.id, 'pause')}>Pause</button>
+                    )}
+                    {job.status === 'paused' && (
+                      <button onClick={() => updateQueuedDownload(job.id, 'resume')}>Resume</button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button onClick={() => updateQueuedDownload(job.id, 'retry')}>Retry</button>
+                    )}
+                    {job.status !== 'completed' && job.status !== 'failed' && job.status !== 'cancelled' && (
+                      <button onClick={() => updateQueuedDownload(job.id, 'cancel')}>Cancel</button>
+                    )}
+                    {job.status === 'completed' && (
+                      <a href={queuedFileUrl(job)} className="hover:underline">Save file</a>
+                    )}
+                    <button onClick={() => updateQueuedDownload(job.id, 'delete')} className="text-red-600">Remove</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-8">
+          <button
+            type="button"
+            onClick={() => setShowHistory(!showHistory)}
+            className="flex items-center text-lg font-semibold text-gray-800"
+          >
+            <FaHistory className="mr-2" />
+            {showHistory ? 'Hide Download History' : 'Download History'}
+          </button>
+          {showHistory && (
+            <div className="mt-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <select
+                  value={historyFilter.type}
+                  onChange={(e) => updateHistoryFilter({ type: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                >
+                  <option value="">All types</option>
+                  {HISTORY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <input
+                  type="date"
+                  value={historyFilter.from}
+                  onChange={(e) => updateHistoryFilter({ from: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                  aria-label="From"
+                />
+                <input
+                  type="date"
+                  value={historyFilter.to}
+                  onChange={(e) => updateHistoryFilter({ to: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                  aria-label="To"
+                />
+                <input
+                  type="text"
+                  value={historyFilter.domain}
+                  onChange={(e) => updateHistoryFilter({ domain: e.target.value })}
+                  placeholder="Domain"
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div className="mt-2 flex flex-wrap gap-3 text-sm text-blue-600">
+                <a href={`/api/history/export?${historyQuery({ format: 'json' })}`} className="hover:underline">Export JSON</a>
+                <a href={`/api/history/export?${historyQuery({ format: 'csv' })}`} className="hover:underline">Export CSV</a>
+                <button onClick={clearAllHistory} className="text-red-600">Clear all</button>
+              </div>
+              {history && history.entries.length === 0 && (
+                <p className="mt-3 text-sm text-gray-500">No downloads recorded. Only History Mode downloads are kept.</p>
+              )}
+              <ul className="mt-3 space-y-3">
+                {history?.entries.map((entry: HistoryEntry) => (
+                  <li key={entry.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className="truncate font-medium text-gray-800" title={entry.url}>{entry.url}</span>
+                      <span className="text-gray-500">{entry.type}</span>
+                    </div>
+                    <div className="mt-1 text-gray-500">{new Date(entry.timestamp).toLocaleString()}</div>
+                    <div className="mt-2 flex flex-wrap gap-3 text-blue-600">
+                      <button onClick={() => downloadAgain(entry)} disabled={isLoading}>Download again</button>
+                      <button onClick={() => deleteHistoryEntry(entry)} className="text-red-600">Delete</button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {history && history.total > history.pageSize && (
+                <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+                  <button onClick={() => setHistoryPage(historyPage - 1)} disabled={historyPage <= 1} className="disabled:opacity-50">
+                    Previous
+                  </button>
+                  <span>Page {history.page} of {Math.ceil(history.total / history.pageSize)}</span>
+                  <button
+                    onClick={() => setHistoryPage(historyPage + 1)}
+                    disabled={history.page * history.pageSize >= history.total}
+                    className="disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 bg-red-100 text-red-700 rounded-lg"
+          >
+            {error}
+          </motion.div>
+        )}
+
+        {torrentInfo && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 bg-blue-50 rounded-lg"
+          >
+            <div className="flex items-center">
+              <FaMagnet className="text-blue-500 mr-2" />
+              <h3 className="text-lg font-semibold text-blue-700">
+                {torrentInfo.source === 'magnet' ? 'Magnet Link Detected' : 'Torrent File Detected'}
+              </h3>
+            </div>
+            {torrentInfo.name && (
+              <p className="mt-2 font-medium text-blue-800 break-all">{torrentInfo.name}</p>
+            )}
+            <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-blue-700">
+              {torrentInfo.totalSize !== null && (
+                <>
+                  <dt className="font-medium">Size</dt>
+                  <dd>{formatBytes(torrentInfo.totalSize)} in {torrentInfo.fileCount} file{torrentInfo.fileCount === 1 ? '' : 's'}</dd>
+                </>
+              )}
+              {torrentInfo.pieceLength !== null && (
+                <>
+                  <dt className="font-medium">Piece length</dt>
+                  <dd>{formatBytes(torrentInfo.pieceLength)}</dd>
+                </>
+              )}
+              {torrentInfo.infoHashV1 && (
+                <>
+                  <dt className="font-medium">Info hash (v1)</dt>
+                  <dd className="font-mono break-all">{torrentInfo.infoHashV1}</dd>
+                </>
+              )}
+              {torrentInfo.infoHashV2 && (
+                <>
+                  <dt className="font-medium">Info hash (v2)</dt>
+                  <dd className="font-mono break-all">{torrentInfo.infoHashV2}</dd>
+                </>
+              )}
+              <dt className="font-medium">Trackers</dt>
+              <dd>{torrentInfo.trackers.length}{torrentInfo.isPrivate ? ' (private torrent)' : ''}</dd>
+            </dl>
+            {torrentInfo.files.length > 0 && (
+              <ul className="mt-3 max-h-48 overflow-y-auto divide-y divide-blue-100 text-sm">
+                {torrentInfo.files.map((file: TorrentFile) => (
+                  <li key={file.path} className="flex items-center justify-between py-1">
+                    <span className="truncate mr-2 text-gray-700" title={file.path}>{file.path}</span>
+                    <span className="flex items-center shrink-0 text-xs text-gray-500">
+                      {file.size > 0 && formatBytes(file.size)}
+                      {file.webSeedUrls.length > 0 && (
+                        <button
+                          onClick={(e: React.MouseEvent) => handleSubmit(e, { targetUrl: file.webSeedUrls[0] })}
+                          className="ml-2 text-blue-600 hover:text-blue-800"
+                          title="Download directly over HTTP from a web seed"
+                        >
+                          <FaDownload />
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {torrentInfo.fileCount > torrentInfo.files.length && (
+              <p className="mt-1 text-xs text-blue-600">
+                Showing {torrentInfo.files.length} of {torrentInfo.fileCount} files.
+              </p>
+            )}
+            <p className="mt-3 text-sm text-blue-600">
+              {torrentInfo.webSeeds.length > 0
+                ? 'Files with a download button are also available over HTTP from a web seed.'
+                : 'You can use your preferred torrent client to download it.'}
+            </p>
+            <div className="mt-4">
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-500 hover:text-blue-700"
+              >
+                {torrentInfo.source === 'magnet' ? 'Open in torrent client' : 'Open torrent file'}
+              </a>
+            </div>
+          </motion.div>
+        )}
+
+        {pageInfo && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 bg-purple-50 rounded-lg"
+          >
+            <div className="flex items-center">
+              <FaFilm className="text-purple-500 mr-2" />
+              <h3 className="text-lg font-semibold text-purple-700">Media Found on This Page</h3>
+            </div>
+            <p className="mt-2 text-sm text-purple-600">
+              Pick what to download. The most likely match is listed first.
+            </p>
+            <ul className="mt-3 max-h-64 overflow-y-auto divide-y divide-purple-100 text-sm">
+              {pageInfo.candidates.map((candidate: MediaCandidate) => (
+                <li key={candidate.url} className="flex items-center justify-between py-2">
+                  <span className="min-w-0 mr-2">
+                    <span className="block truncate font-medium text-gray-800" title={candidate.url}>
+                      {candidate.title || FilenameResolver.resolve({ url: candidate.url })}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {[
+                        candidate.type === 'hls' ? 'HLS stream' : candidate.type === 'dash' ? 'DASH stream' : candidate.type,
+                        candidate.height && `${candidate.height}p`,
+                        candidate.bitrate && `${Math.round(candidate.bitrate / 1000)} kbps`,
+                        candidate.size && formatBytes(candidate.size),
+                        candidate.duration && formatDuration(Math.round(candidate.duration)),
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                  </span>
+                  <button
+                    onClick={(e: React.MouseEvent) => handleSubmit(e, { targetUrl: candidate.url })}
+                    disabled={isLoading}
+                    className="shrink-0 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <FaDownload />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+
+        {hlsInfo && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 bg-purple-50 rounded-lg"
+          >
+            <div className="flex items-center">
+              <FaFilm className="text-purple-500 mr-2" />
+              <h3 className="text-lg font-semibold text-purple-700">HLS Stream Detected</h3>
+            </div>
+            <p className="mt-2 text-sm text-purple-600">
+              Choose a quality. All segments will be joined into a single video file.
+            </p>
+            <div className="mt-4 space-y-2">
+              {hlsInfo.variants.map((variant: HlsVariant, index: number) => (
+                <label key={variant.uri} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="hlsVariant"
+                    checked={selectedVariant === index}
+                    onChange={() => setSelectedVariant(index)}
+                    className="h-4 w-4 text-purple-600 mr-2"
+                  />
+                  <span className="font-medium mr-2">
+                    {variant.resolution || variant.name || `Variant ${index + 1}`}
+                  </span>
+                  <span className="text-gray-500">
+                    {formatBytes(variant.bandwidth / 8)}/s{variant.codecs ? ` · ${variant.codecs}` : ''}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={(e: React.MouseEvent) => handleSubmit(e, { targetUrl: hlsInfo.url })}
+              className="mt-4 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+            >
+              Download Selected Quality
+            </button>
+          </motion.div>
+        )}
+
+        {dashInfo && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 bg-purple-50 rounded-lg"
+          >
+            <div className="flex items-center">
+              <FaFilm className="text-purple-500 mr-2" />
+              <h3 className="text-lg font-semibold text-purple-700">DASH Stream Detected</h3>
+            </div>
+            <p className="mt-2 text-sm text-purple-600">
+              Video and audio are separate tracks. Download each one, then mux them with your player or ffmpeg.
+            </p>
+            {dashInfo.video.length > 0 && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Video</label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={selectedVideo}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedVideo(e.target.value)}
+                    className="flex-1 px-2 py-1 rounded border border-gray-300 text-sm"
+                  >
+                    {dashInfo.video.map((rep: DashRepresentation) => (
+                      <option key={rep.id} value={rep.id}>
+                        {rep.width && rep.height ? `${rep.width}x${rep.height}` : rep.id} · {formatBytes(rep.bandwidth / 8)}/s{rep.codecs ? ` · ${rep.codecs}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={(e: React.MouseEvent) => handleSubmit(e, { representation: selectedVideo, targetUrl: dashInfo.url })}
+                    className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors"
+                  >
+                    Download Video
+                  </button>
+                </div>
+              </div>
+            )}
+            {dashInfo.audio.length > 0 && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Audio</label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={selectedAudio}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedAudio(e.target.value)}
+                    className="flex-1 px-2 py-1 rounded border border-gray-300 text-sm"
+                  >
+                    {dashInfo.audio.map((rep: DashRepresentation) => (
+                      <option key={rep.id} value={rep.id}>
+                        {rep.lang ? `${rep.lang} · ` : ''}{formatBytes(rep.bandwidth / 8)}/s{rep.codecs ? ` · ${rep.codecs}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={(e: React.MouseEvent) => handleSubmit(e, { representation: selectedAudio, targetUrl: dashInfo.url })}
+                    className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors"
+                  >
+                    Download Audio
+                  </button>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
+
+        {largeFileInfo && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-8 p-6 bg-gray-800 rounded-lg shadow-lg"
+          >
+            <div className="flex items-center gap-4 mb-4">
+              <FaFileAlt className="text-3xl text-blue-500" />
+              <h3 className="text-xl font-semibold">Large File Detected</h3>
+            </div>
+            <p className="mb-4">
+              This file is too large to download at once. It will be split into {totalParts} parts.
+            </p>
+            {!largeFileInfo.canSplit && (
+              <p className="mb-4 text-yellow-400">
+                The source server does not support partial downloads, so this file cannot be split.
+              </p>
+            )}
+            <div className="flex items-center gap-4">
+              <button
+                onClick={(e: React.MouseEvent) => handleSubmit(e, { part: currentPart })}
+                disabled={!largeFileInfo.canSplit}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {downloadSpeed === 'fast' && !unlockTokens[unlockKey(url, currentPart)] ? (
+                  'Watch Ad to Unlock Fast Download'
+                ) : (
+                  `Download Part ${currentPart} of ${totalParts}`
+                )}
+              </button>
+              {currentPart < totalParts && (
+                <button
+                  onClick={handleNextPart}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg transition-colors"
+                >
+                  Next Part
+                </button>
+              )}
+            </div>
+            <div className="mt-4 flex items-center gap-4">
+              {allPartsDownload ? (
+                <button
+                  onClick={() => allPartsDownload.abort()}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+                >
+                  Pause
+                </button>
+              ) : (
+                <button
+                  onClick={handleDownloadAll}
+                  disabled={!largeFileInfo.canSplit}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {savedAllParts ? 'Resume All Parts' : 'Download All Parts'}
+                </button>
+              )}
+            </div>
+            {savedAllParts && !allPartsDownload && !allPartsStatus && (
+              <p className="mt-2 text-sm text-gray-300">
+                {savedAllParts.completedParts} of {savedAllParts.totalParts} parts already saved. Pick the same file to continue.
+              </p>
+            )}
+            {allPartsStatus && <p className="mt-2 text-sm text-gray-300">{allPartsStatus}</p>}
+            {mode === 'private' ? (
+              <p className="mt-4 text-sm text-gray-300">
+                Checksum manifests are only kept in History Mode.
+              </p>
+            ) : (
+              <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+                <a href={manifestUrl()} className="text-blue-400 hover:underline">
+                  Download checksum manifest
+                </a>
+                <label className="cursor-pointer text-blue-400 hover:underline">
+                  Verify reassembled file
+                  <input
+                    type="file"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) verifyLocalFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {verifyStatus && <span className="text-gray-300">{verifyStatus}</span>}
+              </div>
+            )}
+          </motion.div>
+        )}
+
+        <AnimatePresence>
+          {showAd && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center"
+            >
+              <motion.div
+                initial={{ scale: 0.9, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.9, opacity: 0 }}
+                className="bg-white p-6 rounded-lg max-w-md w-full mx-4"
+              >
+                <h3 className="text-xl font-semibold mb-4">Watch Ad for Fast Download</h3>
+                <div className="aspect-video bg-gray-200 rounded-lg mb-4 flex items-center justify-center">
+                  <span className="text-gray-500">Ad Video Player</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
+                  <motion.div 
+                    className="bg-blue-600 h-2.5 rounded-full transition-all duration-300" 
+                    style={{ width: `${adProgress}%` }}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${adProgress}%` }}
+                    transition={{ duration: 0.3 }}
+                  />
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleAdComplete}
+                  disabled={adProgress < 100}
+                  className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {adProgress < 100 ? `Ad playing... ${Math.ceil((100 - adProgress) / 20)}s` : 'Complete Ad & Download'}
+                </motion.button>
+              </motion.div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </motion.div>
+    </main>
+  );
 }  
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { UrlGuard } from './urlGuard';
+import { FilenameResolver } from './filenameResolver';
+import { redis } from './redisClient';
+
+const MANIFEST_TTL = 24 * 3600; // 24 hours, long enough to fetch every part
+const HEAD_TIMEOUT = 30000; // 30 seconds
+
+export interface UpstreamChecksum {
+  algorithm: string; // e.g. sha256, md5, crc32c
+  value: string; // hex
+  source: string; // header it came from
+}
+
+export interface ManifestPart {
+  partNumber: number;
+  filename: string;
+  start: number;
+  end: number; // inclusive
+  size: number;
+  sha256: string | null; // null until the part has been served in full once
+}
+
+export interface DownloadManifest {
+  url: string;
+  filename: string;
+  totalSize: number;
+  partSize: number;
+  totalParts: number;
+  checksums: UpstreamChecksum[];
+  version: string | null; // the source's validator when the manifest was made
+  parts: ManifestPart[];
+  complete: boolean;
+  createdAt: string;
+}
+
+type ManifestMeta = Omit<DownloadManifest, 'parts' | 'complete'>;
+
+// RFC 3230 / RFC 9530 algorithm names to ours
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'sha-256': 'sha256',
+  'sha-512': 'sha512',
+  'sha': 'sha1',
+  'md5': 'md5',
+  'crc32c': 'crc32c',
+};
+
+function base64ToHex(value: string): string | null {
+  const trimmed = value.trim().replace(/^:|:$/g, '');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed)) return null;
+  return Buffer.from(trimmed, 'base64').toString('hex');
+}
+
+export class PartManifest {
+  static async create(
+    sessionId: string,
+    url: string,
+    filename: string,
+    totalSize: number,
+    partSize: number,
+    version: string | null = null
+  ): Promise<DownloadManifest> {
+    // Hashes recorded for an older version of the file describe other bytes
+    const existing = await this.get(sessionId, url);
+    if (existing && existing.totalSize === totalSize && existing.partSize === partSize && (existing.version ?? null) === version) {
+      return existing;
+    }
+
+    let checksums: UpstreamChecksum[] = [];
+    try {
+      const response = await UrlGuard.client.head(url, { timeout: HEAD_TIMEOUT });
+      checksums = this.parseChecksums(response.headers as Record<string, unknown>);
+    } catch (error) {
+      // The manifest is still useful without a whole-file checksum
+      console.error('Manifest checksum lookup error:', error);
+    }
+
+    const meta: ManifestMeta = {
+      url,
+      filename,
+      totalSize,
+      partSize,
+      totalParts: Math.ceil(totalSize / partSize),
+      checksums,
+      version,
+      createdAt: new Date().toISOString(),
+    };
+
+    const key = this.manifestKey(sessionId, url);
+    await redis.multi()
+      .del(key)
+      .hset(key, 'meta', JSON.stringify(meta))
+      .expire(key, MANIFEST_TTL)
+      .exec();
+
+    return this.assemble(meta, {});
+  }
+
+  static async get(sessionId: string, url: string): Promise<DownloadManifest | null> {
+    const fields = await redis.hgetall(this.manifestKey(sessionId, url));
+    if (!fields.meta) return null;
+
+    const hashes: Record<number, string> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (field.startsWith('part:')) {
+        hashes[parseInt(field.slice('part:'.length), 10)] = value;
+      }
+    }
+    return this.assemble(JSON.parse(fields.meta), hashes);
+  }
+
+  // Each part is its own hash field, so parts finishing together never overwrite each other
+  static async recordPart(sessionId: string, url: string, partNumber: number, sha256: string): Promise<void> {
+    const key = this.manifestKey(sessionId, url);
+    if (!(await redis.hexists(key, 'meta'))) return;
+
+    await redis.multi()
+      .hset(key, `part:${partNumber}`, sha256)
+      .expire(key, MANIFEST_TTL)
+      .exec();
+  }
+
+  // Whole-file checksums a server may advertise. Content-MD5 and friends
+  // describe the body actually sent, so only a full (non-range) response counts
+  static parseChecksums(headers: Record<string, unknown>): UpstreamChecksum[] {
+    const header = (name: string) => {
+      const value = headers[name] ?? headers[name.toLowerCase()];
+      return value === undefined || value === null ? undefined : String(value);
+    };
+    const checksums: UpstreamChecksum[] = [];
+    const add = (algorithm: string, base64: string, source: string) => {
+      const value = base64ToHex(base64);
+      if (value && !checksums.some(checksum => checksum.algorithm === algorithm)) {
+        checksums.push({ algorithm, value, source });
+      }
+    };
+
+    for (const name of ['repr-digest', 'digest']) {
+      const value = header(name);
+      if (!value) continue;
+      for (const entry of value.split(',')) {
+        const separator = entry.indexOf('=');
+        if (separator === -1) continue;
+        const algorithm = DIGEST_ALGORITHMS[entry.slice(0, separator).trim().toLowerCase()];
+        if (algorithm) add(algorithm, entry.slice(separator + 1), name);
+      }
+    }
+
+    const contentMd5 = header('content-md5');
+    if (contentMd5) add('md5', contentMd5, 'content-md5');
+
+    // Multipart S3 uploads report a checksum of checksums, suffixed with "-<parts>"
+    for (const algorithm of ['sha256', 'sha1', 'crc32', 'crc32c']) {
+      const value = header(`x-amz-checksum-${algorithm}`);
+      if (value && !value.includes('-')) add(algorithm, value, `x-amz-checksum-${algorithm}`);
+    }
+
+    const googHash = header('x-goog-hash');
+    if (googHash) {
+      for (const entry of googHash.split(',')) {
+        const [algorithm, ...rest] = entry.trim().split('=');
+        if (algorithm === 'md5' || algorithm === 'crc32c') add(algorithm, rest.join('='), 'x-goog-hash');
+      }
+    }
+
+    return checksums;
+  }
+
+  static partRange(manifest: Pick<DownloadManifest, 'totalSize' | 'partSize'>, partNumber: number): { start: number; end: number } {
+    const start = (partNumber - 1) * manifest.partSize;
+    return { start, end: Math.min(start + manifest.partSize, manifest.totalSize) - 1 };
+  }
+
+  private static assemble(meta: ManifestMeta, hashes: Record<number, string>): DownloadManifest {
+    const parts: ManifestPart[] = [];
+    for (let partNumber = 1; partNumber <= meta.totalParts; partNumber++) {
+      const { start, end } = this.partRange(meta, partNumber);
+      parts.push({
+        partNumber,
+        filename: FilenameResolver.partName(meta.filename, partNumber, meta.totalParts),
+        start,
+        end,
+        size: end - start + 1,
+        sha256: hashes[partNumber] || null,
+      });
+    }
+
+    return {
+      ...meta,
+      parts,
+      complete: parts.every(part => part.sha256 !== null),
+    };
+  }
+
+  private static manifestKey(sessionId: string, url: string): string {
+    // URLs can be long; the hash keeps the key short
+    return `download_manifest:${sessionId}:${createHash('sha1').update(url).digest('hex')}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+
+export const PRIVACY_HEADER = 'X-Privacy-Mode';
+
+// Everything except history mode is private: no database rows, no cache
+// entries that name the URL and no URLs in the logs
+export class Privacy {
+  static isPrivate(mode: unknown): boolean {
+    return mode !== 'history';
+  }
+
+  // Sent with every response so clients can confirm how the request was handled;
+  // private responses must not be kept by browsers or proxies either
+  static headers(mode: unknown): Record<string, string> {
+    return this.isPrivate(mode)
+      ? { [PRIVACY_HEADER]: 'private', 'Cache-Control': 'private, no-store' }
+      : { [PRIVACY_HEADER]: 'history' };
+  }
+
+  // For keys that must exist but should not reveal what they are about
+  static hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  // Error messages can name hosts and error objects carry the request URL,
+  // so private failures are logged by kind and stack frames only
+  static logError(label: string, error: unknown, isPrivate: boolean) {
+    if (!isPrivate) {
+      console.error(label, error);
+      return;
+    }
+    console.error(label, this.redact(error));
+  }
+
+  static redact(error: unknown): string {
+    if (!(error instanceof Error)) return 'Unknown error';
+
+    const code = (error as { code?: unknown }).code;
+    const frames = (error.stack || '').split('\n').filter(line => line.trim().startsWith('at '));
+    return [`${error.name}${typeof code === 'string' ? ` (${code})` : ''}`, ...frames].join('\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ByteTransform } from './streamPipeline';
+import { redis } from './redisClient';
+
+const JOB_TTL = 3600; // 1 hour
+const PRIVATE_JOB_TTL = 60; // refreshed by every update, so only a finished job expires
+const PUBLISH_INTERVAL = 1000; // 1 second
+const SPEED_WINDOW = 5000; // Speed is averaged over the last 5 seconds
+
+export type JobStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadProgress {
+  id: string;
+  sessionId: string;
+  url: string; // empty for private downloads
+  private?: boolean;
+  status: JobStatus;
+  bytesTransferred: number;
+  totalBytes: number | null;
+  speed: number; // bytes per second
+  eta: number | null; // seconds
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class ProgressTracker {
+  static async createJob(sessionId: string, url: string, isPrivate: boolean = false): Promise<DownloadProgress> {
+    const now = new Date().toISOString();
+    const job: DownloadProgress = {
+      id: uuidv4(),
+      sessionId,
+      url: isPrivate ? '' : url,
+      ...(isPrivate && { private: true }),
+      status: 'pending',
+      bytesTransferred: 0,
+      totalBytes: null,
+      speed: 0,
+      eta: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(job);
+    return job;
+  }
+
+  static async getJob(jobId: string): Promise<DownloadProgress | null> {
+    const data = await redis.get(this.jobKey(jobId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  static isFinished(job: DownloadProgress): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+  }
+
+  static async fail(jobId: string, error: string): Promise<void> {
+    await this.update(jobId, { status: 'failed', speed: 0, eta: null, error });
+  }
+
+  // Counts bytes as they pass through and publishes progress once a second,
+  // so a stalled upstream shows up as the speed dropping to zero
+  static createTransform(jobId: string, totalBytes: number | null): ByteTransform {
+    const samples: Array<{ time: number; bytes: number }> = [{ time: Date.now(), bytes: 0 }];
+    let bytesTransferred = 0;
+    let finished = false;
+
+    // Updates are chained so a slow write never lands after the final status
+    let pending = Promise.resolve();
+    const queueUpdate = (update: Partial<DownloadProgress>) => {
+      pending = pending
+        .then(() => this.update(jobId, update))
+        .catch(error => {
+          console.error('Progress update error:', error);
+        });
+    };
+
+    const snapshot = (): Partial<DownloadProgress> => {
+      const now = Date.now();
+      samples.push({ time: now, bytes: bytesTransferred });
+      while (samples.length > 2 && samples[1].time <= now - SPEED_WINDOW) {
+        samples.shift();
+      }
+
+      const oldest = samples[0];
+      const elapsed = (now - oldest.time) / 1000;
+      const speed = elapsed > 0 ? (bytesTransferred - oldest.bytes) / elapsed : 0;
+      const eta = totalBytes !== null && speed > 0
+        ? Math.ceil((totalBytes - bytesTransferred) / speed)
+        : null;
+
+      return { status: 'downloading', bytesTransferred, totalBytes, speed, eta };
+    };
+
+    const publish = () => queueUpdate(snapshot());
+
+    const finish = (update: Partial<DownloadProgress>) => {
+      if (finished) return;
+      finished = true;
+      clearInterval(interval);
+      queueUpdate({ bytesTransferred, totalBytes, speed: 0, eta: null, ...update });
+    };
+
+    const interval = setInterval(publish, PUBLISH_INTERVAL);
+    publish();
+
+    // `cancel` is supported by the runtime but missing from the DOM typings
+    const transformer: Transformer<Uint8Array, Uint8Array> & { cancel: (reason: unknown) => void } = {
+      transform(chunk, controller) {
+        bytesTransferred += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+      flush() {
+        finish({ status: 'completed', eta: 0 });
+      },
+      cancel(reason) {
+        // Upstream errors and client disconnects both end up here
+        if (reason instanceof Error && reason.name !== 'AbortError') {
+          finish({ status: 'failed', error: reason.message });
+        } else {
+          finish({ status: 'cancelled' });
+        }
+      },
+    };
+
+    return new TransformStream<Uint8Array, Uint8Array>(transformer);
+  }
+
+  private static async update(jobId: string, update: Partial<DownloadProgress>): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job || this.isFinished(job)) return;
+
+    await this.save({ ...job, ...update, updatedAt: new Date().toISOString() });
+  }
+
+  private static async save(job: DownloadProgress): Promise<void> {
+    await redis.setex(this.jobKey(job.id), job.private ? PRIVATE_JOB_TTL : JOB_TTL, JSON.stringify(job));
+  }
+
+  private static jobKey(jobId: string): string {
+    return `download_job:${jobId}`;
+  }
+}
\ No newline at end of file
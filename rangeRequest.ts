@@ -0,0 +1,74 @@
+// Inclusive byte offsets, as in a Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export class RangeNotSupportedError extends Error {
+  constructor(message: string = 'The source server does not support range requests') {
+    super(message);
+    this.name = 'RangeNotSupportedError';
+  }
+}
+
+export class RangeRequest {
+  // Only single ranges are served; anything else is ignored and the
+  // whole representation is sent, which RFC 9110 allows
+  static parse(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+    if (!header || size <= 0) return null;
+
+    const match = header.trim().match(/^bytes=\s*(\d*)\s*-\s*(\d*)\s*$/i);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    // bytes=-500 asks for the last 500 bytes
+    if (!match[1]) {
+      const suffix = parseInt(match[2], 10);
+      if (suffix === 0) return 'unsatisfiable';
+      return { start: Math.max(0, size - suffix), end: size - 1 };
+    }
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+
+    if (match[2] && parseInt(match[2], 10) < start) return null;
+    if (start >= size) return 'unsatisfiable';
+    return { start, end };
+  }
+
+  static toHeader(range: ByteRange, offset: number = 0): string {
+    return `bytes=${offset + range.start}-${offset + range.end}`;
+  }
+
+  static contentRange(range: ByteRange, size: number): string {
+    return `bytes ${range.start}-${range.end}/${size}`;
+  }
+
+  static byteCount(range: ByteRange): number {
+    return range.end - range.start + 1;
+  }
+
+  // Only a strong upstream ETag identifies the bytes exactly; parts get
+  // their own tag since they are different representations
+  static etag(upstreamHeaders: Record<string, string>, partNumber?: number): string | null {
+    const upstream = upstreamHeaders['etag'];
+    if (!upstream || upstream.startsWith('W/')) return null;
+
+    const opaque = upstream.replace(/^"|"$/g, '');
+    return partNumber ? `"${opaque}-part${partNumber}"` : `"${opaque}"`;
+  }
+
+  // With no If-Range the range always applies; otherwise the client's copy
+  // must still be current, judged by a strong ETag or the exact Last-Modified date
+  static ifRangeMatches(ifRange: string | null, etag: string | null, lastModified?: string): boolean {
+    if (!ifRange) return true;
+
+    const value = ifRange.trim();
+    if (value.startsWith('"') || value.startsWith('W/')) {
+      return etag !== null && value === etag;
+    }
+
+    if (!lastModified) return false;
+    const date = Date.parse(value);
+    return Number.isFinite(date) && date === Date.parse(lastModified);
+  }
+}
\ No newline at end of file
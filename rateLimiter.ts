@@ -1,55 +1,304 @@
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
-
-interface RateLimitConfig {
-  maxDownloads: number;
-  windowMs: number;
-}
-
-const defaultConfig: RateLimitConfig = {
-  maxDownloads: 3, // Maximum downloads per window
-  windowMs: 3600000, // 1 hour window
-};
-
-export class RateLimiter {
-  private config: RateLimitConfig;
-
-  constructor(config: Partial<RateLimitConfig> = {}) {
-    this.config = { ...defaultConfig, ...config };
-  }
-
-  async checkLimit(sessionId: string): Promise<{ allowed: boolean; remaining: number }> {
-    const now = new Date();
-    const windowStart = new Date(now.getTime() - this.config.windowMs);
-
-    // Count downloads in the current window
-    const downloadCount = await prisma.downloadHistory.count({
-      where: {
-        sessionId,
-        timestamp: {
-          gte: windowStart,
-          lte: now,
-        },
-      },
-    });
-
-    const remaining = Math.max(0, this.config.maxDownloads - downloadCount);
-    return {
-      allowed: remaining > 0,
-      remaining,
-    };
-  }
-
-  async recordDownload(sessionId: string, url: string, type: string): Promise<void> {
-    await prisma.downloadHistory.create({
-      data: {
-        sessionId,
-        url,
-        type,
-        mode: 'history',
-        timestamp: new Date(),
-      },
-    });
-  }
-} 
\ No newline at end of file
+import { Redis } from 'ioredis';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { Privacy } from './privacy';
+import { DownloadError } from './downloadError';
+import { redis as sharedRedis } from './redisClient';
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket';
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  limit: number; // requests per window, or the bucket's capacity
+  windowMs: number; // the window, or how long an empty bucket takes to refill
+}
+
+export type RateLimitPolicyName = 'requests' | 'downloads';
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // Every request, per client address
+  requests: {
+    algorithm: 'sliding_window',
+    limit: Number(process.env.RATE_LIMIT_REQUESTS) || 100,
+    windowMs: 60000,
+  },
+  // Downloads started per session; bursts are fine, a steady stream is not
+  downloads: {
+    algorithm: 'token_bucket',
+    limit: Number(process.env.RATE_LIMIT_DOWNLOADS) || 10,
+    windowMs: 60000,
+  },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  policy: RateLimitPolicyName;
+  limit: number;
+  remaining: number;
+  resetMs: number; // until the oldest request leaves the window, or the bucket is full again
+  retryAfterMs: number; // 0 when allowed
+}
+
+// Backends check and update in one step, so concurrent requests cannot
+// both take the last slot
+export interface RateLimitStore {
+  slidingWindow(key: string, now: number, policy: RateLimitPolicy, cost: number): Promise<{ allowed: boolean; count: number; oldest: number }>;
+  tokenBucket(key: string, now: number, policy: RateLimitPolicy, cost: number): Promise<{ allowed: boolean; tokens: number }>;
+}
+
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count + cost <= limit then
+  for i = 1, cost do
+    redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':' .. i)
+  end
+  count = count + cost
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, tonumber(oldest[2]) or now }
+`;
+
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local refill = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) / refill)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) * refill) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: Redis = sharedRedis) {}
+
+  async slidingWindow(key: string, now: number, policy: RateLimitPolicy, cost: number) {
+    const [allowed, count, oldest] = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT, 1, key, now, policy.windowMs, policy.limit, cost, uuidv4()
+    ) as [number, number, number];
+    return { allowed: allowed === 1, count, oldest };
+  }
+
+  async tokenBucket(key: string, now: number, policy: RateLimitPolicy, cost: number) {
+    const [allowed, tokens] = await this.redis.eval(
+      TOKEN_BUCKET_SCRIPT, 1, key, now, policy.limit, policy.windowMs / policy.limit, cost
+    ) as [number, string];
+    return { allowed: allowed === 1, tokens: Number(tokens) };
+  }
+}
+
+// For a single server process, or when Redis is not available
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { hits: number[]; expiresAt: number }>();
+  private buckets = new Map<string, { tokens: number; updated: number; expiresAt: number }>();
+  private lastSweep = 0;
+
+  async slidingWindow(key: string, now: number, policy: RateLimitPolicy, cost: number) {
+    this.sweep(now);
+    const entry = this.windows.get(key) || { hits: [], expiresAt: 0 };
+    while (entry.hits.length > 0 && entry.hits[0] <= now - policy.windowMs) {
+      entry.hits.shift();
+    }
+
+    const allowed = entry.hits.length + cost <= policy.limit;
+    if (allowed) {
+      for (let i = 0; i < cost; i++) entry.hits.push(now);
+    }
+    entry.expiresAt = now + policy.windowMs;
+    this.windows.set(key, entry);
+
+    return { allowed, count: entry.hits.length, oldest: entry.hits[0] ?? now };
+  }
+
+  async tokenBucket(key: string, now: number, policy: RateLimitPolicy, cost: number) {
+    this.sweep(now);
+    const refill = policy.windowMs / policy.limit;
+    const entry = this.buckets.get(key) || { tokens: policy.limit, updated: now, expiresAt: 0 };
+
+    entry.tokens = Math.min(policy.limit, entry.tokens + Math.max(0, now - entry.updated) / refill);
+    entry.updated = now;
+    const allowed = entry.tokens >= cost;
+    if (allowed) entry.tokens -= cost;
+    entry.expiresAt = now + Math.ceil((policy.limit - entry.tokens) * refill);
+    this.buckets.set(key, entry);
+
+    return { allowed, tokens: entry.tokens };
+  }
+
+  // Idle keys would otherwise stay in memory for good
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60000) return;
+    this.lastSweep = now;
+    this.windows.forEach((entry, key) => entry.expiresAt <= now && this.windows.delete(key));
+    this.buckets.forEach((entry, key) => entry.expiresAt <= now && this.buckets.delete(key));
+  }
+}
+
+// TRUSTED_PROXIES is either how many proxies sit in front of the app
+// (default 1) or a comma-separated list of their addresses and CIDR ranges
+type TrustedProxies = { hops: number } | { list: net.BlockList };
+
+function parseTrustedProxies(value: string | undefined): TrustedProxies {
+  if (!value || /^\d+$/.test(value.trim())) {
+    const hops = value ? Number(value.trim()) : 1;
+    if (hops === 0) {
+      console.error('TRUSTED_PROXIES=0: clients can only be told apart where the host reports their address; elsewhere they share one rate limit');
+    }
+    return { hops };
+  }
+
+  const list = new net.BlockList();
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [address, prefix] = entry.split('/');
+    const type = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+    if (!net.isIP(address)) {
+      console.error(`Ignoring invalid TRUSTED_PROXIES entry: ${entry}`);
+    } else if (prefix !== undefined) {
+      list.addSubnet(address, Number(prefix), type);
+    } else {
+      list.addAddress(address, type);
+    }
+  }
+  return { list };
+}
+
+const trustedProxies = parseTrustedProxies(process.env.TRUSTED_PROXIES);
+
+// Strips ports, brackets and the IPv4-mapped prefix; anything that is not an
+// address comes back null
+function normalizeIp(value: string | null | undefined): string | null {
+  if (!value) return null;
+  let address = value.trim().replace(/^"|"$/g, '');
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^\d+\.\d+\.\d+\.\d+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  address = address.replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1');
+  return net.isIP(address) ? address.toLowerCase() : null;
+}
+
+// Hosts that know the peer's address (Vercel, for one) put it on NextRequest;
+// a plain `next start` does not, and a Request has no socket to ask
+function connectionIp(request: Request): string | null {
+  return normalizeIp((request as Request & { ip?: string }).ip);
+}
+
+export class RateLimiter {
+  private static store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'memory'
+    ? new MemoryRateLimitStore()
+    : new RedisRateLimitStore();
+
+  static useStore(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  // Each proxy appends the address it received the request from, so only
+  // entries added by trusted proxies can be believed; the rest are whatever
+  // the client chose to send
+  static clientIp(request: Request): string {
+    const forwarded = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .filter(entry => entry.trim())
+      .map(normalizeIp);
+
+    if ('hops' in trustedProxies) {
+      if (trustedProxies.hops === 0) return connectionIp(request) || 'unknown';
+      if (forwarded.length === 0) return normalizeIp(request.headers.get('x-real-ip')) || connectionIp(request) || 'unknown';
+      return forwarded[Math.max(0, forwarded.length - trustedProxies.hops)] || 'unknown';
+    }
+
+    for (let i = forwarded.length - 1; i >= 0; i--) {
+      const address = forwarded[i];
+      if (!address) return 'unknown';
+      if (i === 0 || !trustedProxies.list.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')) {
+        return address;
+      }
+    }
+    return normalizeIp(request.headers.get('x-real-ip')) || connectionIp(request) || 'unknown';
+  }
+
+  static async consume(policyName: RateLimitPolicyName, key: string, cost: number = 1): Promise<RateLimitResult> {
+    const policy = RATE_LIMIT_POLICIES[policyName];
+    const storeKey = `rate_limit:${policyName}:${Privacy.hash(key)}`;
+    const now = Date.now();
+    const units = Math.min(Math.max(1, Math.floor(cost)), policy.limit);
+
+    if (policy.algorithm === 'sliding_window') {
+      const { allowed, count, oldest } = await this.store.slidingWindow(storeKey, now, policy, units);
+      const resetMs = count > 0 ? Math.max(0, oldest + policy.windowMs - now) : 0;
+      return {
+        allowed,
+        policy: policyName,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - count),
+        resetMs,
+        retryAfterMs: allowed ? 0 : Math.max(1000, resetMs),
+      };
+    }
+
+    const refill = policy.windowMs / policy.limit;
+    const { allowed, tokens } = await this.store.tokenBucket(storeKey, now, policy, units);
+    return {
+      allowed,
+      policy: policyName,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((policy.limit - tokens) * refill),
+      retryAfterMs: allowed ? 0 : Math.max(1000, Math.ceil((units - tokens) * refill)),
+    };
+  }
+
+  // Stops at the first limit that is hit; otherwise reports the one with the least left
+  static async check(checks: Array<{ policy: RateLimitPolicyName; key: string; cost?: number }>): Promise<RateLimitResult> {
+    let tightest: RateLimitResult | null = null;
+    for (const { policy, key, cost } of checks) {
+      const result = await this.consume(policy, key, cost);
+      if (!result.allowed) return result;
+      if (!tightest || result.remaining / result.limit < tightest.remaining / tightest.limit) {
+        tightest = result;
+      }
+    }
+    return tightest!;
+  }
+
+  static headers(result: RateLimitResult): Record<string, string> {
+    const policy = RATE_LIMIT_POLICIES[result.policy];
+    return {
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+      'RateLimit-Policy': `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+      ...(!result.allowed && { 'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)) }),
+    };
+  }
+
+  static limitError(result: RateLimitResult): DownloadError {
+    const message = result.policy === 'downloads'
+      ? 'Too many downloads started. Please wait a moment.'
+      : 'Too many requests. Please try again later.';
+    return new DownloadError('rate_limited', message, {
+      retryAfter: Math.ceil(result.retryAfterMs / 1000),
+      details: { policy: result.policy },
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,4 @@
+import { Redis } from 'ioredis';
+
+// One connection per process, shared by everything that keeps state in Redis
+export const redis = new Redis(process.env.REDIS_URL ?? 'redis://localhost:6379');
\ No newline at end of file
@@ -0,0 +1,172 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import Redis from 'ioredis-mock';
+
+// Every Prisma call is recorded; a private download must not make any
+const prismaCalls = vi.hoisted(() => [] as string[]);
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    constructor() {
+      return new Proxy({}, {
+        get: (_, model: string) => new Proxy({}, {
+          get: (__, method: string) => async () => {
+            prismaCalls.push(`${model}.${method}`);
+            return method === 'findMany' ? [] : null;
+          },
+        }),
+      });
+    }
+  },
+}));
+
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { Redis: RedisMock, default: RedisMock };
+});
+
+import { GET } from './route';
+import { POST as queue } from '@/app/api/queue/route';
+import { POST as batch } from '@/app/api/batch/route';
+import { UrlGuard } from '@/app/utils/urlGuard';
+import { Privacy } from '@/app/utils/privacy';
+import { ProgressTracker } from '@/app/utils/progressTracker';
+
+const FILE = Buffer.alloc(32 * 1024, 'x');
+const redis = new Redis();
+
+let server: http.Server;
+let fileUrl: string;
+
+beforeAll(async () => {
+  // The upstream runs on loopback, which the guard rightly refuses
+  vi.spyOn(UrlGuard, 'isBlockedAddress').mockReturnValue(false);
+
+  server = http.createServer((request, response) => {
+    const headers = {
+      'Content-Type': 'application/octet-stream',
+      'Cache-Control': 'public, max-age=3600',
+      'ETag': '"v1"',
+      'Accept-Ranges': 'bytes',
+    };
+    const range = /^bytes=(\d+)-(\d*)$/.exec(request.headers.range || '');
+    if (range) {
+      const start = parseInt(range[1], 10);
+      const end = range[2] ? Math.min(parseInt(range[2], 10), FILE.length - 1) : FILE.length - 1;
+      response.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${FILE.length}`, 'Content-Length': end - start + 1 });
+      response.end(request.method === 'HEAD' ? undefined : FILE.subarray(start, end + 1));
+      return;
+    }
+    response.writeHead(200, { ...headers, 'Content-Length': FILE.length });
+    response.end(request.method === 'HEAD' ? undefined : FILE);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  fileUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/private/report.bin`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(async () => {
+  prismaCalls.length = 0;
+  await redis.flushall();
+});
+
+async function download(mode: string, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams({ url: fileUrl, mode, sessionId: 'session-1', downloadSpeed: 'slow', ...extra });
+  const response = await GET(new Request(`http://localhost/api/download?${params}`));
+  const body = Buffer.from(await response.arrayBuffer());
+  // Byte counts are recorded once the stream has closed
+  await new Promise(resolve => setTimeout(resolve, 50));
+  return { response, body };
+}
+
+function post(path: string, body: Record<string, unknown>) {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Every key and value left in Redis, as one string per entry
+async function redisContents(): Promise<string[]> {
+  const entries: string[] = [];
+  for (const key of await redis.keys('*')) {
+    const type = await redis.type(key);
+    const value = type === 'string' ? await redis.get(key)
+      : type === 'hash' ? JSON.stringify(await redis.hgetall(key))
+        : type === 'zset' ? JSON.stringify(await redis.zrange(key, 0, -1))
+          : type === 'list' ? JSON.stringify(await redis.lrange(key, 0, -1))
+            : JSON.stringify(await redis.smembers(key));
+    entries.push(`${key} ${value}`);
+  }
+  return entries;
+}
+
+describe('private downloads', () => {
+  it('leave no trace of the URL in SQLite or Redis', async () => {
+    const { response, body } = await download('private');
+
+    expect(response.status).toBe(200);
+    expect(body.equals(FILE)).toBe(true);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+
+    expect(prismaCalls).toEqual([]);
+
+    const contents = await redisContents();
+    expect(contents.length).toBeGreaterThan(0);
+    const host = new URL(fileUrl).host;
+    for (const entry of contents) {
+      expect(entry).not.toContain(host);
+      expect(entry).not.toContain('report.bin');
+      expect(entry).not.toContain(Privacy.hash(fileUrl));
+    }
+    // Only the quotas remain, under hashed session and address keys
+    expect(contents.every(entry => entry.startsWith('quota:'))).toBe(true);
+  });
+
+  it('keep a progress job without its URL', async () => {
+    const job = await ProgressTracker.createJob('session-1', fileUrl, true);
+    const { response } = await download('private', { jobId: job.id });
+
+    expect(response.status).toBe(200);
+    expect(prismaCalls).toEqual([]);
+    for (const entry of await redisContents()) {
+      expect(entry).not.toContain('report.bin');
+    }
+  });
+
+  it.each([
+    ['/api/queue', (mode?: string) => queue(post('/api/queue', { url: fileUrl, sessionId: 'session-1', mode }))],
+    ['/api/batch', (mode?: string) => batch(post('/api/batch', { urls: [fileUrl], sessionId: 'session-1', mode, output: 'queue' }))],
+  ])('cannot be queued through %s, which would store the URL', async (_, send) => {
+    for (const mode of ['private', undefined]) {
+      const response = await send(mode);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).code).toBe('history_mode_required');
+    }
+
+    expect(prismaCalls).toEqual([]);
+    for (const entry of await redisContents()) {
+      expect(entry).not.toContain('report.bin');
+    }
+
+    // The same request in History Mode is stored; the mock returns no row, which the route logs
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await send('history');
+    logged.mockRestore();
+    expect(prismaCalls).toContain('downloadJob.create');
+  });
+
+  it('differ from history downloads, which are recorded', async () => {
+    const { response } = await download('history');
+
+    expect(response.status).toBe(200);
+    expect(prismaCalls).toContain('downloadHistory.create');
+    expect((await redisContents()).some(entry => entry.startsWith(`metadata:${Privacy.hash(fileUrl)}`))).toBe(true);
+  });
+});
\ No newline at end of file
@@ -1,207 +1,509 @@
-import { NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
-import { detectContentType } from '@/app/utils/contentDetector';
-import { RateLimiter } from '@/app/utils/rateLimiter';
-import { AdTracker } from '@/app/utils/adTracker';
-import { FileSplitter } from '@/app/utils/fileSplitter';
-import { DownloadLimiter } from '@/app/utils/downloadLimiter';
-import { Redis } from 'ioredis';
-
-const prisma = new PrismaClient();
-const rateLimiter = new RateLimiter();
-const redis = new Redis(process.env.REDIS_URL);
-
-// Cache duration in seconds
-const CACHE_DURATION = 3600; // 1 hour
-
-export async function POST(request: Request) {
-  try {
-    const { url, mode, downloadSpeed, sessionId, partSize } = await request.json();
-    
-    // Validate URL
-    if (!url || typeof url !== 'string') {
-      return NextResponse.json({ error: 'Invalid URL' }, { status: 400 });
-    }
-
-    // Check download limit
-    const { allowed: canDownload, remaining } = await DownloadLimiter.checkDownloadLimit(sessionId);
-    if (!canDownload) {
-      return NextResponse.json(
-        { 
-          error: 'Download limit reached. Watch an ad to continue downloading.',
-          remaining,
-          limit: 5,
-        },
-        { status: 429 }
-      );
-    }
-
-    // Check rate limit for all requests
-    const ip = request.headers.get('x-forwarded-for') || 'unknown';
-    const rateLimitKey = `rate_limit:${ip}`;
-    const rateLimit = await redis.incr(rateLimitKey);
-    
-    if (rateLimit === 1) {
-      await redis.expire(rateLimitKey, 60); // Reset every minute
-    }
-    
-    if (rateLimit > 100) { // 100 requests per minute per IP
-      return NextResponse.json(
-        { error: 'Too many requests. Please try again later.' },
-        { status: 429 }
-      );
-    }
-
-    // Check if fast download is unlocked for this part
-    if (downloadSpeed === 'fast') {
-      const partUrl = `${url}#part${partSize}`;
-      const isUnlocked = await AdTracker.isUnlocked(sessionId, partUrl);
-      if (!isUnlocked) {
-        return NextResponse.json(
-          { error: 'Fast download not unlocked for this part. Please watch the ad first.' },
-          { status: 403 }
-        );
-      }
-    }
-
-    // Check rate limit for history mode
-    if (mode === 'history') {
-      const { allowed, remaining } = await rateLimiter.checkLimit(sessionId);
-      if (!allowed) {
-        return NextResponse.json(
-          { error: 'Rate limit exceeded', remaining },
-          { status: 429 }
-        );
-      }
-    }
-
-    // Check cache for file info
-    const cacheKey = `file_info:${url}`;
-    let fileInfo = await redis.get(cacheKey);
-    
-    if (!fileInfo) {
-      // Detect content type
-      const contentType = await detectContentType(url);
-      
-      // Special handling for torrent files
-      if (contentType === 'torrent') {
-        const torrentInfo = {
-          url,
-          type: 'torrent',
-          mode,
-          sessionId,
-          timestamp: new Date().toISOString(),
-        };
-
-        await rateLimiter.recordDownload(sessionId, url, contentType);
-        await DownloadLimiter.recordDownload(sessionId, url, 'torrent');
-        await redis.setex(cacheKey, CACHE_DURATION, JSON.stringify(torrentInfo));
-
-        return NextResponse.json(torrentInfo, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Cache-Control': 'public, max-age=3600',
-          },
-        });
-      }
-
-      // Check file size and handle splitting if needed
-      const fileSize = await FileSplitter.getFileSize(url);
-      const MAX_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
-
-      if (fileSize > MAX_SIZE) {
-        if (!partSize) {
-          const largeFileInfo = {
-            type: 'large_file',
-            url,
-            totalSize: fileSize,
-            suggestedPartSize: MAX_SIZE,
-            canSplit: true,
-            totalParts: Math.ceil(fileSize / MAX_SIZE),
-          };
-          
-          await redis.setex(cacheKey, CACHE_DURATION, JSON.stringify(largeFileInfo));
-          
-          return NextResponse.json(largeFileInfo, {
-            headers: {
-              'Content-Type': 'application/json',
-              'Cache-Control': 'public, max-age=3600',
-            },
-          });
-        }
-
-        // Download specific part with speed control
-        const part = await FileSplitter.downloadPart({
-          url,
-          partNumber: parseInt(partSize, 10),
-          size: MAX_SIZE,
-          totalParts: Math.ceil(fileSize / MAX_SIZE),
-        }, sessionId, downloadSpeed === 'slow');
-
-        // Record download in history if in history mode
-        if (mode === 'history') {
-          await rateLimiter.recordDownload(sessionId, `${url}#part${partSize}`, contentType);
-        }
-
-        // Record part download
-        await DownloadLimiter.recordDownload(sessionId, url, 'part', parseInt(partSize, 10));
-
-        return new NextResponse(part, {
-          headers: {
-            'Content-Type': 'application/octet-stream',
-            'Content-Disposition': `attachment; filename="part_${partSize}.zip"`,
-            'Cache-Control': 'public, max-age=3600',
-          },
-        });
-      }
-      
-      // Download the file
-      const fileResponse = await axios.get(url, {
-        responseType: 'arraybuffer',
-        ...(downloadSpeed === 'slow' && {
-          onDownloadProgress: (progressEvent) => {
-            return new Promise(resolve => setTimeout(resolve, 100));
-          },
-        }),
-      });
-
-      // Record download in history if in history mode
-      if (mode === 'history') {
-        await rateLimiter.recordDownload(sessionId, url, contentType);
-      }
-
-      // Record file download
-      await DownloadLimiter.recordDownload(sessionId, url, 'file');
-
-      // Cache the file info
-      await redis.setex(cacheKey, CACHE_DURATION, JSON.stringify({
-        type: 'file',
-        url,
-        contentType: fileResponse.headers['content-type'],
-        size: fileResponse.data.length,
-      }));
-
-      // Return the file
-      return new NextResponse(fileResponse.data, {
-        headers: {
-          'Content-Type': fileResponse.headers['content-type'],
-          'Content-Disposition': `attachment; filename="downloaded_file.${contentType}"`,
-          'Cache-Control': 'public, max-age=3600',
-        },
-      });
-    }
-
-    // Return cached response
-    return NextResponse.json(JSON.parse(fileInfo), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
-  } catch (error) {
-    console.error('Download error:', error);
-    return NextResponse.json({ error: 'Download failed' }, { status: 500 });
-  }
+import { NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { MetadataCache } from '@/app/utils/metadataCache';
+import { RateLimiter } from '@/app/utils/rateLimiter';
+import { DownloadHistory } from '@/app/utils/downloadHistory';
+import { AdTracker } from '@/app/utils/adTracker';
+import { FileSplitter } from '@/app/utils/fileSplitter';
+import { DownloadLimiter } from '@/app/utils/downloadLimiter';
+import { StreamPipeline } from '@/app/utils/streamPipeline';
+import { BandwidthThrottle, SpeedTier } from '@/app/utils/bandwidthThrottle';
+import { ProgressTracker } from '@/app/utils/progressTracker';
+import { HlsDownloader, HlsMediaPlaylist } from '@/app/utils/hlsDownloader';
+import { DashDownloader } from '@/app/utils/dashDownloader';
+import { MediaExtractor } from '@/app/utils/mediaExtractor';
+import { TorrentParser } from '@/app/utils/torrentParser';
+import { UrlGuard } from '@/app/utils/urlGuard';
+import { FilenameResolver } from '@/app/utils/filenameResolver';
+import { RangeRequest } from '@/app/utils/rangeRequest';
+import { DownloadError } from '@/app/utils/downloadError';
+import { PartManifest } from '@/app/utils/partManifest';
+import { Privacy } from '@/app/utils/privacy';
+
+const prisma = new PrismaClient();
+
+const MAX_TORRENT_FILES_LISTED = 1000;
+
+function rangeNotSatisfiable(size: number, headers: Record<string, string>) {
+  return NextResponse.json(
+    { error: 'Requested range not satisfiable' },
+    { status: 416, headers: { 'Content-Range': `bytes */${size}`, ...headers } }
+  );
+}
+
+function errorResponse(error: DownloadError, headers: Record<string, string>) {
+  return NextResponse.json(error.toJSON(), { status: error.status, headers: { ...error.headers(), ...headers } });
+}
+
+// Starting a download counts against the session's download rate and needs
+// a download left in both quotas; resuming one only needs bytes, checked up front
+async function startDownload(sessionId: unknown, quotaSession: string, ip: string, responseHeaders: Record<string, string>) {
+  if (typeof sessionId === 'string' && sessionId) {
+    const rateLimit = await RateLimiter.consume('downloads', sessionId);
+    Object.assign(responseHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      throw RateLimiter.limitError(rateLimit);
+    }
+  }
+
+  const quota = await DownloadLimiter.checkDownloadLimit(quotaSession, ip);
+  Object.assign(responseHeaders, DownloadLimiter.headers(quota));
+  if (!quota.allowed) {
+    throw DownloadLimiter.limitError(quota);
+  }
+  await DownloadLimiter.countDownload(quotaSession, ip);
+}
+
+const DOWNLOAD_PARAMS = ['url', 'mode', 'downloadSpeed', 'sessionId', 'partSize', 'variant', 'representation', 'jobId', 'unlockToken'];
+
+export async function POST(request: Request) {
+  let body: Record<string, any>;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(new DownloadError('invalid_request', 'Invalid request body'), Privacy.headers(undefined));
+  }
+  return handleDownload(request, body);
+}
+
+// Plain GET links let browsers and download managers resume with Range requests
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const body: Record<string, any> = {};
+  for (const key of DOWNLOAD_PARAMS) {
+    const value = params.get(key);
+    if (value !== null) body[key] = value;
+  }
+  return handleDownload(request, body);
+}
+
+async function handleDownload(request: Request, body: Record<string, any>) {
+  let jobId: string | undefined;
+  const isPrivate = Privacy.isPrivate(body.mode);
+  const responseHeaders = Privacy.headers(body.mode);
+
+  try {
+    const { url, mode, downloadSpeed, sessionId, partSize, variant, representation } = body;
+    const speedTier: SpeedTier = downloadSpeed === 'fast' ? 'fast' : 'slow';
+    const ip = RateLimiter.clientIp(request);
+
+    // Every request counts against its address; starting a download also
+    // counts against the session, see startDownload
+    const rateLimit = await RateLimiter.consume('requests', ip);
+    Object.assign(responseHeaders, RateLimiter.headers(rateLimit));
+    if (!rateLimit.allowed) {
+      throw RateLimiter.limitError(rateLimit);
+    }
+    
+    // Validate URL
+    if (!url || typeof url !== 'string') {
+      throw new DownloadError('invalid_url', 'Invalid URL');
+    }
+
+    // Never fetch private, loopback or metadata addresses on a user's behalf
+    if (!TorrentParser.isMagnet(url)) {
+      await UrlGuard.check(url);
+    }
+
+    // Progress for this download is reported through /api/jobs/[id]/progress
+    if (body.jobId) {
+      const job = await ProgressTracker.getJob(body.jobId);
+      if (!job || job.sessionId !== sessionId) {
+        throw new DownloadError('job_not_found', 'Download job not found');
+      }
+      jobId = job.id;
+    }
+
+    // Check the byte quota; links without a session share their address's.
+    // Whether a download is left is checked once it is known to be a new one,
+    // which for files takes the parsed range
+    const quotaSession = typeof sessionId === 'string' && sessionId ? sessionId : `ip:${ip}`;
+    const quota = await DownloadLimiter.checkDownloadLimit(quotaSession, ip, true);
+    Object.assign(responseHeaders, DownloadLimiter.headers(quota));
+    if (!quota.allowed) {
+      throw DownloadLimiter.limitError(quota);
+    }
+
+    // Check if fast download is unlocked for this part
+    if (downloadSpeed === 'fast') {
+      const isUnlocked = await AdTracker.isUnlocked(sessionId, url, partSize, body.unlockToken);
+      if (!isUnlocked) {
+        throw new DownloadError('fast_locked', 'Fast download not unlocked for this part. Please watch the ad first.');
+      }
+    }
+
+    // Cached metadata only ever stands in for the HEAD request; the response
+    // is always the download itself. Private URLs are never cached
+    const { info: contentType, version } = await MetadataCache.detect(url, !isPrivate);
+
+    // Special handling for torrent files
+    if (contentType.type === 'torrent') {
+      const metadata = TorrentParser.isMagnet(url)
+        ? TorrentParser.parseMagnet(url)
+        : await TorrentParser.fetchTorrent(url);
+
+      const torrentInfo = {
+        url,
+        type: 'torrent',
+        mode,
+        sessionId,
+        timestamp: new Date().toISOString(),
+        ...metadata,
+        fileCount: metadata.files.length,
+        files: metadata.files.slice(0, MAX_TORRENT_FILES_LISTED),
+      };
+
+      await startDownload(sessionId, quotaSession, ip, responseHeaders);
+      if (!isPrivate) {
+        await DownloadHistory.record(sessionId, url, 'torrent');
+        await DownloadLimiter.recordDownload(sessionId, url, 'torrent');
+      }
+
+      return NextResponse.json(torrentInfo, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'private, no-store',
+          ...responseHeaders,
+        },
+      });
+    }
+
+    // HLS: list the variants first, then stream the chosen one as a single file
+    if (contentType.type === 'hls') {
+      const playlist = await HlsDownloader.fetchPlaylist(url);
+      let mediaPlaylist: HlsMediaPlaylist;
+
+      if (playlist.type === 'master') {
+        if (variant === undefined || variant === null) {
+          return NextResponse.json({
+            type: 'hls',
+            url,
+            variants: playlist.variants,
+          }, {
+            headers: {
+              'Content-Type': 'application/json',
+              'Cache-Control': 'private, no-store',
+              ...responseHeaders,
+            },
+          });
+        }
+
+        const selected = playlist.variants[parseInt(variant, 10)];
+        if (!selected) {
+          throw new DownloadError('unknown_variant', 'Unknown HLS variant');
+        }
+
+        const variantPlaylist = await HlsDownloader.fetchPlaylist(selected.uri);
+        if (variantPlaylist.type !== 'media') {
+          throw new DownloadError('unsupported_content', 'HLS variant is not a media playlist');
+        }
+        mediaPlaylist = variantPlaylist;
+      } else {
+        mediaPlaylist = playlist;
+      }
+
+      // Streams are always sent whole, so every request starts a new download
+      await startDownload(sessionId, quotaSession, ip, responseHeaders);
+      const segments = HlsDownloader.streamSegments(mediaPlaylist, request.signal);
+      const isFragmentedMp4 = HlsDownloader.isFragmentedMp4(mediaPlaylist);
+
+      if (!isPrivate) {
+        await DownloadHistory.record(sessionId, url, 'hls');
+        await DownloadLimiter.recordDownload(sessionId, url, 'hls');
+      }
+
+      const hlsBody = StreamPipeline.pipe(segments, [
+        BandwidthThrottle.createTransform(sessionId, speedTier, ip),
+        DownloadLimiter.createTransform(quotaSession, ip),
+        ...(jobId ? [ProgressTracker.createTransform(jobId, null)] : []),
+      ]);
+
+      return new NextResponse(hlsBody, {
+        headers: {
+          'Content-Type': isFragmentedMp4 ? 'video/mp4' : 'video/mp2t',
+          'Content-Disposition': FilenameResolver.contentDisposition(`stream.${isFragmentedMp4 ? 'mp4' : 'ts'}`),
+          'Cache-Control': 'private, no-store',
+          ...responseHeaders,
+        },
+      });
+    }
+
+    // DASH: list the representations first, then stream one track per request
+    if (contentType.type === 'dash') {
+      const manifest = await DashDownloader.fetchManifest(url);
+
+      if (!representation) {
+        return NextResponse.json({
+          type: 'dash',
+          url,
+          ...DashDownloader.describe(manifest),
+        }, {
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'private, no-store',
+            ...responseHeaders,
+          },
+        });
+      }
+
+      const track = manifest.tracks.find(candidate => candidate.representation.id === representation);
+      if (!track || track.representation.kind === 'text') {
+        throw new DownloadError('unknown_variant', 'Unknown DASH representation');
+      }
+
+      await startDownload(sessionId, quotaSession, ip, responseHeaders);
+      if (!isPrivate) {
+        await DownloadHistory.record(sessionId, `${url}#${representation}`, 'dash');
+        await DownloadLimiter.recordDownload(sessionId, url, 'dash');
+      }
+
+      const dashBody = StreamPipeline.pipe(DashDownloader.streamTrack(track, request.signal), [
+        BandwidthThrottle.createTransform(sessionId, speedTier, ip),
+        DownloadLimiter.createTransform(quotaSession, ip),
+        ...(jobId ? [ProgressTracker.createTransform(jobId, null)] : []),
+      ]);
+      const extension = DashDownloader.getExtension(track.representation);
+
+      return new NextResponse(dashBody, {
+        headers: {
+          'Content-Type': track.representation.mimeType || 'application/octet-stream',
+          'Content-Disposition': FilenameResolver.contentDisposition(`${track.representation.kind}_${track.representation.id}.${extension}`),
+          'Cache-Control': 'private, no-store',
+          ...responseHeaders,
+        },
+      });
+    }
+
+    // Web pages: list the media found on them first; the chosen one is
+    // downloaded by its own URL. A page without any is saved as it is
+    if (contentType.type === 'page') {
+      const candidates = await MediaExtractor.fromPage(url);
+      if (candidates.length > 0) {
+        return NextResponse.json({
+          type: 'page',
+          url,
+          candidates,
+        }, {
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'private, no-store',
+            ...responseHeaders,
+          },
+        });
+      }
+    }
+
+    // Check file size and handle splitting if needed
+    const fileSize = contentType.size;
+    const MAX_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
+    const filename = contentType.filename ?? FilenameResolver.resolve({ url, extension: contentType.extension });
+
+    if (fileSize > MAX_SIZE) {
+      if (!partSize) {
+        const largeFileInfo = {
+          type: 'large_file',
+          url,
+          totalSize: fileSize,
+          suggestedPartSize: MAX_SIZE,
+          // Parts are fetched with Range requests, so the source must support them
+          canSplit: contentType.acceptsRanges !== false,
+          totalParts: Math.ceil(fileSize / MAX_SIZE),
+          mimeType: contentType.mimeType,
+          extension: contentType.extension,
+          filename,
+          // Changes when the source file does; parts of different versions must not be joined
+          version,
+        };
+        
+        if (!isPrivate) {
+          await PartManifest.create(sessionId, url, filename, fileSize, MAX_SIZE, version);
+        }
+        
+        return NextResponse.json(largeFileInfo, {
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'private, no-store',
+            ...responseHeaders,
+          },
+        });
+      }
+
+      // Stream the requested part; aborting the request cancels the upstream fetch
+      const filePart = FileSplitter.getPart(url, fileSize, partSize);
+      const { partNumber, totalParts, size: partLength } = filePart;
+
+      const range = RangeRequest.parse(request.headers.get('range'), partLength);
+      if (range === 'unsatisfiable') {
+        return rangeNotSatisfiable(partLength, responseHeaders);
+      }
+      if (!DownloadLimiter.fits(quota, range ? RangeRequest.byteCount(range) : partLength)) {
+        throw DownloadLimiter.limitError(quota);
+      }
+
+      // A resumed part was already counted when it started; only a single
+      // range past the first byte resumes one
+      const resumingPart = range !== null && range.start > 0;
+      if (!resumingPart) {
+        await startDownload(sessionId, quotaSession, ip, responseHeaders);
+      }
+
+      let part = await FileSplitter.downloadPart(filePart, sessionId, ip, speedTier, request.signal, range ?? undefined, !isPrivate);
+      let partRange = range;
+
+      // The source changed since the client's partial copy: send the whole part again
+      if (partRange && !RangeRequest.ifRangeMatches(request.headers.get('if-range'), RangeRequest.etag(part.headers, partNumber), part.headers['last-modified'])) {
+        await part.body.cancel();
+        if (resumingPart) {
+          await startDownload(sessionId, quotaSession, ip, responseHeaders);
+        }
+        part = await FileSplitter.downloadPart(filePart, sessionId, ip, speedTier, request.signal, undefined, !isPrivate);
+        partRange = null;
+      }
+
+      const partEtag = RangeRequest.etag(part.headers, partNumber);
+      const partBytes = partRange ? RangeRequest.byteCount(partRange) : partLength;
+
+      if (!isPrivate && (!partRange || partRange.start === 0)) {
+        // Record download in history
+        await DownloadHistory.record(sessionId, `${url}#part${partSize}`, contentType.type);
+
+        // Record part download
+        await DownloadLimiter.recordDownload(sessionId, url, 'part', partNumber);
+      }
+
+      // Only a part served from its first byte to its last can be hashed;
+      // private downloads keep no manifest
+      if (!isPrivate) {
+        await PartManifest.create(sessionId, url, filename, fileSize, MAX_SIZE, version);
+      }
+      const partBody = StreamPipeline.pipe(part.body, [
+        ...(partRange || isPrivate ? [] : [StreamPipeline.createHashTransform('sha256', digest => {
+          PartManifest.recordPart(sessionId, url, partNumber, digest).catch(error => {
+            console.error('Manifest update error:', error);
+          });
+        })]),
+        DownloadLimiter.createTransform(quotaSession, ip),
+        ...(jobId ? [ProgressTracker.createTransform(jobId, partBytes)] : []),
+      ]);
+
+      return new NextResponse(partBody, {
+        status: partRange ? 206 : 200,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': partBytes.toString(),
+          ...(partRange && { 'Content-Range': RangeRequest.contentRange(partRange, partLength) }),
+          'Accept-Ranges': 'bytes',
+          ...(partEtag && { 'ETag': partEtag }),
+          ...(part.headers['last-modified'] && { 'Last-Modified': part.headers['last-modified'] }),
+          'Content-Disposition': FilenameResolver.contentDisposition(FilenameResolver.partName(filename, partNumber, totalParts)),
+          'Cache-Control': 'private, no-store',
+          ...responseHeaders,
+        },
+      });
+    }
+    
+    const range = RangeRequest.parse(request.headers.get('range'), contentType.size);
+    if (range === 'unsatisfiable') {
+      return rangeNotSatisfiable(contentType.size, responseHeaders);
+    }
+    if (contentType.size > 0 && !DownloadLimiter.fits(quota, range ? RangeRequest.byteCount(range) : contentType.size)) {
+      throw DownloadLimiter.limitError(quota);
+    }
+
+    // A resumed download was already counted when it started; multiple
+    // ranges and malformed headers get the whole file, so they count
+    const resumingFile = range !== null && range.start > 0;
+    if (!resumingFile) {
+      await startDownload(sessionId, quotaSession, ip, responseHeaders);
+    }
+
+    // Stream the file straight through to the client; the bytes are the
+    // upstream's own, so a client range maps onto it one to one
+    let fileResponse = await StreamPipeline.fromUpstream(url, {
+      signal: request.signal,
+      headers: range ? { Range: RangeRequest.toHeader(range) } : undefined,
+    });
+
+    const acceptsRanges = contentType.size > 0 && (range
+      ? fileResponse.status === 206
+      : contentType.acceptsRanges === true);
+    let fileRange = range && fileResponse.status === 206 ? range : null;
+
+    // The source changed since the client's partial copy: send all of it again
+    if (fileRange && !RangeRequest.ifRangeMatches(request.headers.get('if-range'), RangeRequest.etag(fileResponse.headers), fileResponse.headers['last-modified'])) {
+      await fileResponse.body.cancel();
+      if (resumingFile) {
+        await startDownload(sessionId, quotaSession, ip, responseHeaders);
+      }
+      fileResponse = await StreamPipeline.fromUpstream(url, { signal: request.signal });
+      fileRange = null;
+    } else if (resumingFile && !fileRange) {
+      // The source ignored the range and sends the whole file
+      try {
+        await startDownload(sessionId, quotaSession, ip, responseHeaders);
+      } catch (error) {
+        await fileResponse.body.cancel();
+        throw error;
+      }
+    }
+
+    const fileEtag = RangeRequest.etag(fileResponse.headers);
+    // A sniffed signature is more reliable than whatever the server claims
+    const fileContentType = contentType.confidence === 'low'
+      ? fileResponse.headers['content-type'] || contentType.mimeType
+      : contentType.mimeType;
+
+    // The GET may carry a different Content-Disposition, or end up elsewhere after redirects
+    const downloadName = FilenameResolver.resolve({
+      contentDisposition: fileResponse.headers['content-disposition'],
+      url: fileResponse.url,
+      extension: contentType.extension,
+    });
+
+    if (!isPrivate && (!fileRange || fileRange.start === 0)) {
+      // Record download in history
+      await DownloadHistory.record(sessionId, url, contentType.type);
+
+      // Record file download
+      await DownloadLimiter.recordDownload(sessionId, url, 'file');
+    }
+
+    // Return the file
+    const fileBody = StreamPipeline.pipe(fileResponse.body, [
+      BandwidthThrottle.createTransform(sessionId, speedTier, ip),
+      DownloadLimiter.createTransform(quotaSession, ip),
+      ...(jobId ? [ProgressTracker.createTransform(jobId, fileResponse.contentLength)] : []),
+    ]);
+
+    return new NextResponse(fileBody, {
+      status: fileRange ? 206 : 200,
+      headers: {
+        'Content-Type': fileContentType,
+        ...(fileResponse.contentLength !== null && {
+          'Content-Length': fileResponse.contentLength.toString(),
+        }),
+        ...(fileRange && {
+          'Content-Range': fileResponse.headers['content-range'] || RangeRequest.contentRange(fileRange, contentType.size),
+        }),
+        // "none" tells download managers up front that resuming will restart from zero
+        'Accept-Ranges': acceptsRanges ? 'bytes' : 'none',
+        ...(fileEtag && { 'ETag': fileEtag }),
+        ...(fileResponse.headers['last-modified'] && { 'Last-Modified': fileResponse.headers['last-modified'] }),
+        'Content-Disposition': FilenameResolver.contentDisposition(downloadName),
+        'Cache-Control': 'private, no-store',
+        ...responseHeaders,
+      },
+    });
+  } catch (error) {
+    const downloadError = DownloadError.from(error);
+    if (jobId) {
+      await ProgressTracker.fail(jobId, downloadError.message).catch(() => undefined);
+    }
+
+    if (downloadError.code === 'internal_error') {
+      Privacy.logError('Download error:', error, isPrivate);
+    }
+    return errorResponse(downloadError, responseHeaders);
+  }
 } 
\ No newline at end of file
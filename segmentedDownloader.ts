@@ -0,0 +1,361 @@
+import { UrlGuard } from './urlGuard';
+import { StreamPipeline, UpstreamResponse } from './streamPipeline';
+import { ByteRange, RangeNotSupportedError, RangeRequest } from './rangeRequest';
+
+const CHUNK_SIZE = 4 * 1024 * 1024; // 4MB per Range request
+const DEFAULT_CONNECTIONS = parseInt(process.env.SEGMENT_CONNECTIONS || '', 10) || 4;
+const WINDOW_CHUNKS_PER_CONNECTION = 2; // how far ahead of the client we fetch
+const CHUNK_TIMEOUT = 30000; // a chunk that delivers nothing for 30 seconds is retried
+const CHUNK_RETRIES = 5;
+const MIN_STEAL_SIZE = 1024 * 1024; // never split off less than 1MB
+const MIN_STEAL_ETA = 2; // seconds; faster chunks are left alone
+const STEAL_GRACE = 1000; // a chunk's speed means nothing in its first second
+
+export interface SegmentedDownloadOptions {
+  connections?: number;
+  signal?: AbortSignal;
+  onClose?: () => void;
+}
+
+interface Segment {
+  start: number;
+  end: number; // inclusive; shrinks when another connection steals the tail
+  received: number;
+  buffers: Uint8Array[];
+  active: boolean;
+  done: boolean;
+  startedAt: number;
+}
+
+export class Semaphore {
+  private waiters: Array<() => void> = [];
+
+  constructor(private available: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw signal.reason;
+    if (this.available > 0) {
+      this.available--;
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(candidate => candidate !== waiter);
+        reject(signal!.reason);
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  release(): void {
+    // Hand the permit straight to the next waiter, if any
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.available++;
+    }
+  }
+}
+
+function isFatal(error: unknown): boolean {
+  return error instanceof RangeNotSupportedError || !!UrlGuard.fromError(error);
+}
+
+// Fetches one byte range over several connections and emits it in order.
+// Connections take the next chunk inside a window ahead of the client; once
+// the window is handed out, an idle connection splits the tail off the
+// chunk that will take longest to finish
+class SegmentedDownload {
+  private segments: Segment[] = [];
+  private emitted: number;
+  private readonly windowSize: number;
+  private readonly abortController = new AbortController();
+  private error: unknown = null;
+  private closed = false;
+  private listeners: Array<() => void> = [];
+  private headers: Record<string, string> | null = null;
+  private resolveHeaders!: (headers: Record<string, string>) => void;
+  private rejectHeaders!: (error: unknown) => void;
+  readonly firstResponse: Promise<Record<string, string>>;
+
+  constructor(
+    private url: string,
+    range: ByteRange,
+    private connections: number,
+    private onClose?: () => void
+  ) {
+    this.emitted = range.start;
+    this.windowSize = connections * WINDOW_CHUNKS_PER_CONNECTION * CHUNK_SIZE;
+
+    for (let start = range.start; start <= range.end; start += CHUNK_SIZE) {
+      this.segments.push({
+        start,
+        end: Math.min(start + CHUNK_SIZE - 1, range.end),
+        received: 0,
+        buffers: [],
+        active: false,
+        done: false,
+        startedAt: 0,
+      });
+    }
+
+    this.firstResponse = new Promise((resolve, reject) => {
+      this.resolveHeaders = resolve;
+      this.rejectHeaders = reject;
+    });
+    // Callers that never await the headers must not see an unhandled rejection
+    this.firstResponse.catch(() => undefined);
+  }
+
+  start(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      this.fail(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', () => this.fail(signal.reason), { once: true });
+
+    for (let i = 0; i < Math.min(this.connections, this.segments.length); i++) {
+      this.worker().catch(error => this.fail(error));
+    }
+  }
+
+  createStream(): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        for (;;) {
+          if (this.error) {
+            this.close();
+            throw this.error;
+          }
+
+          const head = this.segments[0];
+          if (!head) {
+            this.close();
+            controller.close();
+            return;
+          }
+
+          const chunk = head.buffers.shift();
+          if (chunk) {
+            this.emitted += chunk.byteLength;
+            controller.enqueue(chunk);
+            this.notify();
+            return;
+          }
+
+          if (head.done) {
+            this.segments.shift();
+            continue;
+          }
+
+          await this.changed();
+        }
+      },
+      cancel: (reason) => {
+        this.fail(reason ?? new Error('Download cancelled'));
+      },
+    }, { highWaterMark: 0 });
+  }
+
+  private async worker(): Promise<void> {
+    while (!this.error) {
+      const segment = this.nextSegment();
+      if (segment) {
+        await this.fetchSegment(segment);
+        continue;
+      }
+
+      if (this.segments.every(candidate => candidate.done)) return;
+      await this.changed();
+    }
+  }
+
+  private nextSegment(): Segment | null {
+    const windowEnd = this.emitted + this.windowSize;
+    let slowest: Segment | null = null;
+    let slowestEta = MIN_STEAL_ETA;
+
+    for (const segment of this.segments) {
+      if (segment.start >= windowEnd) break;
+
+      if (!segment.active && !segment.done) {
+        segment.active = true;
+        return segment;
+      }
+
+      if (segment.active && Date.now() - segment.startedAt >= STEAL_GRACE) {
+        const remaining = segment.end - segment.start - segment.received + 1;
+        const elapsed = (Date.now() - segment.startedAt) / 1000;
+        const speed = elapsed > 0 ? segment.received / elapsed : 0;
+        const eta = speed > 0 ? remaining / speed : Infinity;
+        if (remaining >= 2 * MIN_STEAL_SIZE && eta > slowestEta) {
+          slowest = segment;
+          slowestEta = eta;
+        }
+      }
+    }
+
+    return slowest ? this.steal(slowest) : null;
+  }
+
+  // The victim keeps the first half of what it has left and stops once it gets there
+  private steal(victim: Segment): Segment {
+    const next = victim.start + victim.received;
+    const middle = next + Math.floor((victim.end - next + 1) / 2);
+
+    const stolen: Segment = {
+      start: middle,
+      end: victim.end,
+      received: 0,
+      buffers: [],
+      active: true,
+      done: false,
+      startedAt: 0,
+    };
+    victim.end = middle - 1;
+
+    this.segments.splice(this.segments.indexOf(victim) + 1, 0, stolen);
+    return stolen;
+  }
+
+  private async fetchSegment(segment: Segment): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.fetchOnce(segment);
+        segment.active = false;
+        segment.done = true;
+        this.notify();
+        return;
+      } catch (error) {
+        if (this.error) return;
+        if (isFatal(error) || attempt >= CHUNK_RETRIES) {
+          this.fail(error);
+          return;
+        }
+        // Resumes from the last byte received on the next attempt
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 500));
+      }
+    }
+  }
+
+  private async fetchOnce(segment: Segment): Promise<void> {
+    const from = segment.start + segment.received;
+    if (from > segment.end) return;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    this.abortController.signal.addEventListener('abort', abort);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(abort, CHUNK_TIMEOUT);
+    };
+
+    try {
+      resetTimer();
+      segment.startedAt = segment.startedAt || Date.now();
+
+      const response = await StreamPipeline.fromUpstream(this.url, {
+        headers: { Range: RangeRequest.toHeader({ start: from, end: segment.end }) },
+        signal: controller.signal,
+      });
+
+      // A 200 would be the whole file from byte 0, not this chunk
+      if (response.status !== 206) {
+        await response.body.cancel();
+        throw new RangeNotSupportedError('The source server does not support range requests, so this file cannot be downloaded in parts');
+      }
+      this.checkHeaders(response.headers);
+
+      const reader = response.body.getReader();
+      try {
+        while (segment.start + segment.received <= segment.end) {
+          const { done, value } = await reader.read();
+          if (done) {
+            throw new Error(`Connection closed ${segment.end - segment.start - segment.received + 1} bytes early`);
+          }
+          resetTimer();
+
+          // The end may have moved while this chunk was in flight
+          const room = segment.end - segment.start - segment.received + 1;
+          const data = value.byteLength > room ? value.subarray(0, room) : value;
+          segment.buffers.push(data);
+          segment.received += data.byteLength;
+          this.notify();
+        }
+      } finally {
+        await reader.cancel().catch(() => undefined);
+      }
+    } finally {
+      clearTimeout(timer);
+      this.abortController.signal.removeEventListener('abort', abort);
+    }
+  }
+
+  // Every chunk must come from the same version of the file
+  private checkHeaders(headers: Record<string, string>) {
+    if (!this.headers) {
+      this.headers = headers;
+      this.resolveHeaders(headers);
+      return;
+    }
+
+    const validator = (values: Record<string, string>) => values['etag'] || values['last-modified'];
+    if (validator(headers) !== validator(this.headers)) {
+      throw new RangeNotSupportedError('The source file changed while it was being downloaded');
+    }
+  }
+
+  private fail(error: unknown) {
+    if (this.error) return;
+    this.error = error || new Error('Download failed');
+    this.rejectHeaders(this.error);
+    this.abortController.abort();
+    this.segments = [];
+    this.notify();
+    this.close();
+  }
+
+  private close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose?.();
+  }
+
+  private changed(): Promise<void> {
+    return new Promise(resolve => this.listeners.push(resolve));
+  }
+
+  private notify() {
+    const listeners = this.listeners;
+    this.listeners = [];
+    listeners.forEach(listener => listener());
+  }
+}
+
+export class SegmentedDownloader {
+  // Resolves once the first chunk has answered, so callers get the upstream
+  // validators and a clean error when ranges are not supported
+  static async download(url: string, range: ByteRange, options: SegmentedDownloadOptions = {}): Promise<UpstreamResponse> {
+    const download = new SegmentedDownload(url, range, options.connections || DEFAULT_CONNECTIONS, options.onClose);
+    const body = download.createStream();
+    download.start(options.signal);
+
+    const headers = await download.firstResponse;
+    return {
+      status: 206,
+      url,
+      headers,
+      contentLength: RangeRequest.byteCount(range),
+      body,
+    };
+  }
+}
\ No newline at end of file
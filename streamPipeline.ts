@@ -0,0 +1,171 @@
+import { UrlGuard } from './urlGuard';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+
+const STREAM_HIGH_WATER_MARK = 1024 * 1024; // 1MB buffered before pausing upstream
+const SEGMENT_TIMEOUT = 30000; // 30 seconds per segment
+const SEGMENT_RETRIES = 3;
+
+export type ByteTransform = TransformStream<Uint8Array, Uint8Array>;
+
+export interface UpstreamOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeout?: number;
+  onClose?: () => void;
+}
+
+export interface FetchBytesOptions {
+  range?: string; // e.g. "bytes=0-1023"
+  signal?: AbortSignal;
+}
+
+export interface UpstreamResponse {
+  status: number;
+  url: string; // final URL after redirects
+  headers: Record<string, string>;
+  contentLength: number | null;
+  body: ReadableStream<Uint8Array>;
+}
+
+export class StreamPipeline {
+  static async fromUpstream(url: string, options: UpstreamOptions = {}): Promise<UpstreamResponse> {
+    // Aborting this controller tears down the upstream socket
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
+
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      options.signal?.removeEventListener('abort', abort);
+      options.onClose?.();
+    };
+
+    try {
+      const response = await UrlGuard.client.get<Readable>(url, {
+        responseType: 'stream',
+        headers: options.headers,
+        signal: controller.signal,
+        timeout: options.timeout,
+      });
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+      }
+
+      const contentLength = headers['content-length'] ? parseInt(headers['content-length'], 10) : null;
+
+      return {
+        status: response.status,
+        url: response.request?.res?.responseUrl || url,
+        headers,
+        contentLength: Number.isFinite(contentLength) ? contentLength : null,
+        body: this.fromNodeStream(response.data, () => {
+          controller.abort();
+          close();
+        }),
+      };
+    } catch (error) {
+      close();
+      throw error;
+    }
+  }
+
+  static fromNodeStream(source: Readable, onClose?: () => void): ReadableStream<Uint8Array> {
+    let finished = false;
+    const finish = () => {
+      if (finished) return false;
+      finished = true;
+      onClose?.();
+      return true;
+    };
+
+    return new ReadableStream<Uint8Array>(
+      {
+        start(controller) {
+          source.on('data', (chunk: Buffer) => {
+            if (finished) return;
+            controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+            // Stop reading from upstream until the client catches up
+            if ((controller.desiredSize ?? 0) <= 0) {
+              source.pause();
+            }
+          });
+          source.once('end', () => {
+            if (finish()) controller.close();
+          });
+          source.once('error', (error) => {
+            if (finish()) controller.error(error);
+          });
+          source.pause();
+        },
+        pull() {
+          source.resume();
+        },
+        cancel() {
+          // Client went away: stop pulling from upstream
+          finish();
+          source.destroy();
+        },
+      },
+      new ByteLengthQueuingStrategy({ highWaterMark: STREAM_HIGH_WATER_MARK })
+    );
+  }
+
+  // Small resources such as media segments and keys are fetched whole, with retries
+  static async fetchBytes(url: string, options: FetchBytesOptions = {}): Promise<Buffer> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < SEGMENT_RETRIES; attempt++) {
+      try {
+        const response = await UrlGuard.client.get<ArrayBuffer>(url, {
+          responseType: 'arraybuffer',
+          timeout: SEGMENT_TIMEOUT,
+          signal: options.signal,
+          headers: options.range ? { Range: options.range } : undefined,
+        });
+        return Buffer.from(response.data);
+      } catch (error) {
+        if (options.signal?.aborted || UrlGuard.fromError(error)) throw error;
+        lastError = error;
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 500));
+      }
+    }
+
+    throw lastError;
+  }
+
+  static fromBuffer(data: Uint8Array): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(data);
+        controller.close();
+      },
+    });
+  }
+
+  static pipe(source: ReadableStream<Uint8Array>, transforms: ByteTransform[] = []): ReadableStream<Uint8Array> {
+    return transforms.reduce(
+      (stream: ReadableStream<Uint8Array>, transform: ByteTransform) => stream.pipeThrough(transform),
+      source
+    );
+  }
+
+  static createHashTransform(algorithm: string, onDigest: (digest: string) => void): ByteTransform {
+    const hash = createHash(algorithm);
+    return new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hash.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush() {
+        onDigest(hash.digest('hex'));
+      },
+    });
+  }
+}
\ No newline at end of file
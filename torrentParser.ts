@@ -0,0 +1,310 @@
+import { UrlGuard } from './urlGuard';
+import { createHash } from 'crypto';
+import { DownloadError } from './downloadError';
+
+const TORRENT_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_NESTING = 64;
+
+export type BencodeValue = number | Buffer | BencodeValue[] | BencodeDict;
+
+export interface BencodeDict {
+  [key: string]: BencodeValue;
+}
+
+export interface TorrentFile {
+  path: string;
+  size: number;
+  webSeedUrls: string[];
+}
+
+export interface TorrentMetadata {
+  source: 'torrent' | 'magnet';
+  name: string | null;
+  infoHashV1: string | null;
+  infoHashV2: string | null;
+  pieceLength: number | null;
+  totalSize: number | null;
+  files: TorrentFile[];
+  trackers: string[];
+  webSeeds: string[];
+  isPrivate: boolean;
+  comment?: string;
+  createdBy?: string;
+  creationDate?: string;
+}
+
+class BencodeDecoder {
+  private position = 0;
+  infoSpan?: [number, number];
+
+  constructor(private data: Buffer) {}
+
+  decode(depth: number = 0): BencodeValue {
+    if (depth > MAX_NESTING) {
+      throw new DownloadError('unsupported_content', 'Bencode nesting too deep');
+    }
+
+    const byte = this.data[this.position];
+    if (byte === undefined) {
+      throw new DownloadError('unsupported_content', 'Unexpected end of bencoded data');
+    }
+
+    // i<number>e
+    if (byte === 0x69) {
+      const end = this.data.indexOf(0x65, this.position);
+      if (end === -1) throw new DownloadError('unsupported_content', 'Unterminated bencoded integer');
+      const value = parseInt(this.data.toString('ascii', this.position + 1, end), 10);
+      if (!Number.isFinite(value)) throw new DownloadError('unsupported_content', 'Invalid bencoded integer');
+      this.position = end + 1;
+      return value;
+    }
+
+    // l<values>e
+    if (byte === 0x6c) {
+      this.position++;
+      const list: BencodeValue[] = [];
+      while (this.data[this.position] !== 0x65) {
+        list.push(this.decode(depth + 1));
+      }
+      this.position++;
+      return list;
+    }
+
+    // d<key><value>...e
+    if (byte === 0x64) {
+      this.position++;
+      const dict: BencodeDict = {};
+      while (this.data[this.position] !== 0x65) {
+        const key = this.readString().toString('utf8');
+        const start = this.position;
+        dict[key] = this.decode(depth + 1);
+
+        // The info hash is taken over the exact bytes of the top-level info dict
+        if (depth === 0 && key === 'info') {
+          this.infoSpan = [start, this.position];
+        }
+      }
+      this.position++;
+      return dict;
+    }
+
+    if (byte >= 0x30 && byte <= 0x39) {
+      return this.readString();
+    }
+
+    throw new DownloadError('unsupported_content', `Invalid bencode token at byte ${this.position}`);
+  }
+
+  private readString(): Buffer {
+    const colon = this.data.indexOf(0x3a, this.position);
+    if (colon === -1) throw new DownloadError('unsupported_content', 'Invalid bencoded string');
+
+    const length = parseInt(this.data.toString('ascii', this.position, colon), 10);
+    const start = colon + 1;
+    if (!Number.isFinite(length) || length < 0 || start + length > this.data.length) {
+      throw new DownloadError('unsupported_content', 'Invalid bencoded string length');
+    }
+
+    this.position = start + length;
+    return this.data.subarray(start, start + length);
+  }
+}
+
+function isDict(value: BencodeValue | undefined): value is BencodeDict {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function text(value: BencodeValue | undefined): string | undefined {
+  return Buffer.isBuffer(value) ? value.toString('utf8') : undefined;
+}
+
+function textList(value: BencodeValue | undefined): string[] {
+  if (Buffer.isBuffer(value)) return [value.toString('utf8')];
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => textList(item));
+}
+
+export class TorrentParser {
+  static isMagnet(url: string): boolean {
+    return url.startsWith('magnet:?');
+  }
+
+  static decode(data: Buffer): { value: BencodeValue; infoSpan?: [number, number] } {
+    const decoder = new BencodeDecoder(data);
+    const value = decoder.decode();
+    return { value, infoSpan: decoder.infoSpan };
+  }
+
+  static async fetchTorrent(url: string): Promise<TorrentMetadata> {
+    const response = await UrlGuard.client.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      maxContentLength: TORRENT_MAX_SIZE,
+      timeout: 30000,
+    });
+    return this.parseTorrent(Buffer.from(response.data));
+  }
+
+  static parseTorrent(data: Buffer): TorrentMetadata {
+    const { value: torrent, infoSpan } = this.decode(data);
+    if (!isDict(torrent) || !isDict(torrent.info) || !infoSpan) {
+      throw new DownloadError('unsupported_content', 'Torrent has no info dictionary');
+    }
+
+    const info = torrent.info;
+    const infoBytes = data.subarray(infoSpan[0], infoSpan[1]);
+    const isV2 = info['meta version'] === 2;
+    const hasV1 = 'pieces' in info;
+
+    const name = text(info['name.utf-8']) ?? text(info.name) ?? null;
+    const webSeeds = textList(torrent['url-list']);
+
+    const trackers = Array.from(new Set([
+      ...textList(torrent.announce),
+      ...textList(torrent['announce-list']),
+    ]));
+
+    const files = hasV1 || !isDict(info['file tree'])
+      ? this.v1Files(info, name)
+      : this.v2Files(info['file tree'] as BencodeDict);
+
+    const isSingleFile = hasV1 ? !Array.isArray(info.files) : files.length === 1 && files[0].path === name;
+    for (const file of files) {
+      file.webSeedUrls = webSeeds.map(seed => this.webSeedUrl(seed, name || file.path, isSingleFile ? [] : file.path.split('/')));
+    }
+
+    const creationDate = typeof torrent['creation date'] === 'number'
+      ? new Date(torrent['creation date'] * 1000).toISOString()
+      : undefined;
+
+    return {
+      source: 'torrent',
+      name,
+      infoHashV1: hasV1 ? createHash('sha1').update(infoBytes).digest('hex') : null,
+      infoHashV2: isV2 ? createHash('sha256').update(infoBytes).digest('hex') : null,
+      pieceLength: typeof info['piece length'] === 'number' ? info['piece length'] : null,
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+      files,
+      trackers,
+      webSeeds,
+      isPrivate: info.private === 1,
+      comment: text(torrent.comment),
+      createdBy: text(torrent['created by']),
+      creationDate,
+    };
+  }
+
+  static parseMagnet(uri: string): TorrentMetadata {
+    const params = new URLSearchParams(uri.slice('magnet:?'.length));
+    let infoHashV1: string | null = null;
+    let infoHashV2: string | null = null;
+
+    for (const xt of params.getAll('xt')) {
+      const btih = xt.match(/^urn:btih:([0-9a-f]{40}|[a-z2-7]{32})$/i);
+      if (btih) {
+        infoHashV1 = btih[1].length === 40 ? btih[1].toLowerCase() : this.base32ToHex(btih[1]);
+      }
+
+      // Multihash: 0x12 = sha2-256, 0x20 = 32 byte digest
+      const btmh = xt.match(/^urn:btmh:1220([0-9a-f]{64})$/i);
+      if (btmh) {
+        infoHashV2 = btmh[1].toLowerCase();
+      }
+    }
+
+    if (!infoHashV1 && !infoHashV2) {
+      throw new DownloadError('unsupported_content', 'Magnet link has no BitTorrent info hash');
+    }
+
+    const name = params.get('dn');
+    const exactLength = params.get('xl') ? parseInt(params.get('xl')!, 10) : null;
+    const webSeeds = params.getAll('ws');
+
+    // A magnet only describes the torrent as a whole; with a name we can still
+    // point web seeds at it as if it were a single file
+    const files: TorrentFile[] = name ? [{
+      path: name,
+      size: exactLength ?? 0,
+      webSeedUrls: webSeeds.map(seed => this.webSeedUrl(seed, name, [])),
+    }] : [];
+
+    return {
+      source: 'magnet',
+      name,
+      infoHashV1,
+      infoHashV2,
+      pieceLength: null,
+      totalSize: exactLength,
+      files,
+      trackers: Array.from(new Set(params.getAll('tr'))),
+      webSeeds,
+      isPrivate: false,
+    };
+  }
+
+  // BEP 19: a seed URL ending in "/" is a directory the torrent name is appended to
+  static webSeedUrl(seed: string, name: string, path: string[]): string {
+    const encode = (segments: string[]) => segments.map(segment => encodeURIComponent(segment)).join('/');
+
+    if (path.length === 0) {
+      return seed.endsWith('/') ? `${seed}${encode([name])}` : seed;
+    }
+    const base = seed.endsWith('/') ? seed : `${seed}/`;
+    return `${base}${encode([name, ...path])}`;
+  }
+
+  private static v1Files(info: BencodeDict, name: string | null): TorrentFile[] {
+    if (!Array.isArray(info.files)) {
+      return [{
+        path: name || 'unknown',
+        size: typeof info.length === 'number' ? info.length : 0,
+        webSeedUrls: [],
+      }];
+    }
+
+    return info.files
+      .filter(isDict)
+      // BEP 47 padding files only exist to align pieces
+      .filter(file => !text(file.attr)?.includes('p'))
+      .map(file => ({
+        path: textList(file['path.utf-8'] ?? file.path).join('/'),
+        size: typeof file.length === 'number' ? file.length : 0,
+        webSeedUrls: [],
+      }));
+  }
+
+  private static v2Files(tree: BencodeDict, prefix: string[] = []): TorrentFile[] {
+    const files: TorrentFile[] = [];
+
+    for (const [key, value] of Object.entries(tree)) {
+      if (!isDict(value)) continue;
+
+      // A key of "" marks a file entry inside its directory node
+      const entry = value[''];
+      if (isDict(entry)) {
+        files.push({
+          path: [...prefix, key].join('/'),
+          size: typeof entry.length === 'number' ? entry.length : 0,
+          webSeedUrls: [],
+        });
+      } else {
+        files.push(...this.v2Files(value, [...prefix, key]));
+      }
+    }
+
+    return files;
+  }
+
+  private static base32ToHex(value: string): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    let bits = '';
+    for (const char of value.toUpperCase()) {
+      bits += alphabet.indexOf(char).toString(2).padStart(5, '0');
+    }
+
+    let hex = '';
+    for (let i = 0; i + 4 <= bits.length; i += 4) {
+      hex += parseInt(bits.slice(i, i + 4), 2).toString(16);
+    }
+    return hex;
+  }
+}
\ No newline at end of file
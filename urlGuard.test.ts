@@ -0,0 +1,45 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { UrlGuard, UrlGuardError } from './urlGuard';
+import { StreamPipeline } from './streamPipeline';
+
+let server: http.Server;
+let port: number;
+let requests = 0;
+
+beforeAll(async () => {
+  server = http.createServer((_, response) => {
+    requests++;
+    response.end('secret');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('UrlGuard.client', () => {
+  it.each([
+    ['loopback', () => `http://127.0.0.1:${port}/`],
+    ['loopback written as a number', () => `http://2130706433:${port}/`],
+    ['IPv4-mapped loopback', () => `http://[::ffff:127.0.0.1]:${port}/`],
+    ['the metadata address', () => 'http://169.254.169.254/latest/meta-data/'],
+  ])('refuses an IP literal for %s without connecting', async (_, url) => {
+    const before = requests;
+
+    await expect(StreamPipeline.fetchBytes(url())).rejects.toSatisfy(error =>
+      UrlGuard.fromError(error)?.reason === 'blocked_address'
+    );
+    await expect(UrlGuard.client.head(url())).rejects.toBeInstanceOf(UrlGuardError);
+    expect(requests).toBe(before);
+  });
+
+  it('refuses a host name that resolves to loopback', async () => {
+    await expect(StreamPipeline.fetchBytes(`http://localhost:${port}/`)).rejects.toSatisfy(error =>
+      UrlGuard.fromError(error)?.reason === 'blocked_address'
+    );
+  });
+});
\ No newline at end of file
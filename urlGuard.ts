@@ -0,0 +1,182 @@
+import axios, { AxiosInstance } from 'axios';
+import dns, { LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const MAX_REDIRECTS = 5;
+
+// Cloud metadata endpoints that are not covered by the private ranges below
+const METADATA_ADDRESSES = ['100.100.100.200', '168.63.129.16', 'fd00:ec2::254'];
+
+export type UrlRejectionReason =
+  | 'invalid_url'
+  | 'scheme_not_allowed'
+  | 'credentials_not_allowed'
+  | 'host_not_resolved'
+  | 'blocked_address';
+
+export class UrlGuardError extends Error {
+  constructor(public reason: UrlRejectionReason, message: string) {
+    super(message);
+    this.name = 'UrlGuardError';
+  }
+}
+
+const blockList = new net.BlockList();
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+].forEach(([address, prefix]) => blockList.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+  ['2001:db8::', 32], // documentation
+].forEach(([address, prefix]) => blockList.addSubnet(address as string, prefix as number, 'ipv6'));
+METADATA_ADDRESSES.forEach(address => blockList.addAddress(address, net.isIPv6(address) ? 'ipv6' : 'ipv4'));
+
+function embeddedIPv4(address: string): string | null {
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach IPv4 hosts
+  const dotted = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return dotted[1];
+
+  const hex = address.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  }
+  return null;
+}
+
+function guardedLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find(entry => UrlGuard.isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new UrlGuardError('blocked_address', `${hostname} resolves to a private or reserved address`), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// Every connection, including each redirect hop, resolves through the guard,
+// so a DNS answer cannot change between the check and the request
+const httpAgent = new http.Agent({ keepAlive: true, lookup: guardedLookup } as http.AgentOptions);
+const httpsAgent = new https.Agent({ keepAlive: true, lookup: guardedLookup } as https.AgentOptions);
+
+// What follow-redirects hands to beforeRedirect: the next hop's request options and its full URL
+type RedirectOptions = http.RequestOptions & { href?: string };
+
+export class UrlGuard {
+  static readonly client: AxiosInstance = axios.create({
+    httpAgent,
+    httpsAgent,
+    maxRedirects: MAX_REDIRECTS,
+    beforeRedirect: (options: RedirectOptions) => {
+      UrlGuard.assertAllowedUrl(options.href || `${options.protocol}//${options.hostname}${options.path || ''}`);
+    },
+  });
+
+  static isBlockedAddress(address: string): boolean {
+    const mapped = embeddedIPv4(address);
+    if (mapped) {
+      return blockList.check(mapped, 'ipv4');
+    }
+
+    const family = net.isIP(address);
+    if (family === 0) return true;
+    return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  // Synchronous checks that need no network access
+  static assertAllowedUrl(url: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new UrlGuardError('invalid_url', 'The URL is not valid');
+    }
+
+    if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+      throw new UrlGuardError('scheme_not_allowed', `URLs using ${parsed.protocol} are not supported`);
+    }
+
+    if (parsed.username || parsed.password) {
+      throw new UrlGuardError('credentials_not_allowed', 'URLs with embedded credentials are not supported');
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && this.isBlockedAddress(hostname)) {
+      throw new UrlGuardError('blocked_address', 'The URL points to a private or reserved address');
+    }
+
+    return parsed;
+  }
+
+  static async check(url: string): Promise<URL> {
+    const parsed = this.assertAllowedUrl(url);
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+
+    let addresses: LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true });
+    } catch {
+      throw new UrlGuardError('host_not_resolved', `Could not resolve ${hostname}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(entry => this.isBlockedAddress(entry.address))) {
+      throw new UrlGuardError('blocked_address', `${hostname} resolves to a private or reserved address`);
+    }
+
+    return parsed;
+  }
+
+  // Guard failures inside a request surface wrapped in AxiosError and,
+  // for redirects, in the redirect error as well
+  static fromError(error: unknown): UrlGuardError | null {
+    let current = error;
+    for (let depth = 0; current && depth < 5; depth++) {
+      if (current instanceof UrlGuardError) return current;
+      current = (current as { cause?: unknown }).cause;
+    }
+    return null;
+  }
+}
+
+// Node connects to an IP literal without calling the agent's lookup, so every
+// request, not just each redirect, is checked before it is sent
+UrlGuard.client.interceptors.request.use(config => {
+  UrlGuard.assertAllowedUrl(UrlGuard.client.getUri(config));
+  return config;
+});
\ No newline at end of file
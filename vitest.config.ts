@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Routes import utilities as '@/app/utils/<name>', and tests import routes as '@/app/api/<path>'
+    alias: [
+      { find: /^@\/app\/utils\//, replacement: fileURLToPath(new URL('./', import.meta.url)) },
+      { find: /^@\/app\/api\//, replacement: fileURLToPath(new URL('./api/', import.meta.url)) },
+    ],
+  },
+  test: {
+    environment: 'node',
+    env: {
+      RATE_LIMIT_STORE: 'memory',
+    },
+  },
+});
\ No newline at end of file
@@ -0,0 +1,269 @@
+// Builds a ZIP archive as it streams, without knowing sizes up front and
+// without temp files. Entries are stored uncompressed: media and archives
+// are compressed already, and storing keeps the CPU out of the way
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const ZIP64_END = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const END_OF_CENTRAL = 0x06054b50;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008; // sizes and CRC follow the data
+const FLAG_UTF8 = 0x0800;
+const VERSION_ZIP64 = 45;
+const VERSION_DEFAULT = 20;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  body: ReadableStream<Uint8Array>;
+  size?: number | null; // known sizes under 4GB avoid ZIP64 for that entry
+  modified?: Date;
+}
+
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+  time: number;
+  date: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+function crc32(crc: number, data: Uint8Array): number {
+  let c = crc ^ -1;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ -1) >>> 0;
+}
+
+// MS-DOS dates cannot go before 1980
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+class Writer {
+  private view: DataView;
+  private position = 0;
+  readonly bytes: Uint8Array;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number) {
+    this.view.setUint16(this.position, value, true);
+    this.position += 2;
+    return this;
+  }
+
+  u32(value: number) {
+    this.view.setUint32(this.position, value >>> 0, true);
+    this.position += 4;
+    return this;
+  }
+
+  // Sizes and offsets past 4GB; exact up to 2^53
+  u64(value: number) {
+    this.u32(value % 0x100000000);
+    return this.u32(Math.floor(value / 0x100000000));
+  }
+
+  raw(data: Uint8Array) {
+    this.bytes.set(data, this.position);
+    this.position += data.length;
+    return this;
+  }
+}
+
+export class ZipStream {
+  // Names inside one archive must be unique: "a.pdf", "a (2).pdf", ...
+  static uniqueName(name: string, taken: Set<string>): string {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem} (${n})${extension}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  // Entries are pulled one at a time, only when the client is ready for more
+  static create(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+    const iterator = this.generate(entries);
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel() {
+        await iterator.return(undefined);
+      },
+    }, { highWaterMark: 0 });
+  }
+
+  private static async *generate(entries: AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+    const encoder = new TextEncoder();
+    const written: WrittenEntry[] = [];
+    let offset = 0;
+
+    for await (const entry of entries) {
+      const name = encoder.encode(entry.name);
+      const zip64 = entry.size === undefined || entry.size === null || entry.size >= MAX_32 || offset >= MAX_32;
+      const { time, date } = dosDateTime(entry.modified || new Date());
+
+      // Sizes are unknown here; a ZIP64 extra field tells readers the
+      // data descriptor will carry 8-byte sizes
+      const local = new Writer(30 + name.length + (zip64 ? 20 : 0))
+        .u32(LOCAL_HEADER)
+        .u16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+        .u16(FLAG_DATA_DESCRIPTOR | FLAG_UTF8)
+        .u16(0) // stored
+        .u16(time)
+        .u16(date)
+        .u32(0)
+        .u32(zip64 ? MAX_32 : 0)
+        .u32(zip64 ? MAX_32 : 0)
+        .u16(name.length)
+        .u16(zip64 ? 20 : 0)
+        .raw(name);
+      if (zip64) {
+        local.u16(0x0001).u16(16).u64(0).u64(0);
+      }
+      yield local.bytes;
+
+      let crc = 0;
+      let size = 0;
+      const reader = entry.body.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          crc = crc32(crc, value);
+          size += value.byteLength;
+          yield value;
+        }
+      } finally {
+        // Runs when the client goes away mid-entry, too
+        await reader.cancel().catch(() => undefined);
+      }
+
+      if (!zip64 && size >= MAX_32) {
+        throw new Error(`${entry.name} is larger than its declared size`);
+      }
+
+      const descriptor = new Writer(zip64 ? 24 : 16).u32(DATA_DESCRIPTOR).u32(crc);
+      if (zip64) {
+        descriptor.u64(size).u64(size);
+      } else {
+        descriptor.u32(size).u32(size);
+      }
+      yield descriptor.bytes;
+
+      written.push({ name, crc, size, offset, zip64, time, date });
+      offset += local.bytes.length + size + descriptor.bytes.length;
+    }
+
+    yield this.centralDirectory(written, offset);
+  }
+
+  private static centralDirectory(entries: WrittenEntry[], directoryOffset: number): Uint8Array {
+    const headers: Uint8Array[] = entries.map(entry => {
+      const needsZip64 = entry.zip64 || entry.size >= MAX_32 || entry.offset >= MAX_32;
+      const header = new Writer(46 + entry.name.length + (needsZip64 ? 28 : 0))
+        .u32(CENTRAL_HEADER)
+        .u16(needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT) // made by
+        .u16(needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT) // needed to extract
+        .u16(FLAG_DATA_DESCRIPTOR | FLAG_UTF8)
+        .u16(0)
+        .u16(entry.time)
+        .u16(entry.date)
+        .u32(entry.crc)
+        .u32(needsZip64 ? MAX_32 : entry.size)
+        .u32(needsZip64 ? MAX_32 : entry.size)
+        .u16(entry.name.length)
+        .u16(needsZip64 ? 28 : 0)
+        .u16(0) // comment
+        .u16(0) // disk
+        .u16(0) // internal attributes
+        .u32(0) // external attributes
+        .u32(needsZip64 ? MAX_32 : entry.offset)
+        .raw(entry.name);
+      if (needsZip64) {
+        header.u16(0x0001).u16(24).u64(entry.size).u64(entry.size).u64(entry.offset);
+      }
+      return header.bytes;
+    });
+
+    const directorySize = headers.reduce((total, header) => total + header.length, 0);
+    const needsZip64 = entries.length >= MAX_16 || directorySize >= MAX_32 || directoryOffset >= MAX_32;
+
+    const tail: Uint8Array[] = [];
+    if (needsZip64) {
+      tail.push(new Writer(56)
+        .u32(ZIP64_END)
+        .u64(44) // size of the rest of this record
+        .u16(VERSION_ZIP64)
+        .u16(VERSION_ZIP64)
+        .u32(0)
+        .u32(0)
+        .u64(entries.length)
+        .u64(entries.length)
+        .u64(directorySize)
+        .u64(directoryOffset)
+        .bytes);
+      tail.push(new Writer(20)
+        .u32(ZIP64_LOCATOR)
+        .u32(0)
+        .u64(directoryOffset + directorySize)
+        .u32(1)
+        .bytes);
+    }
+    tail.push(new Writer(22)
+      .u32(END_OF_CENTRAL)
+      .u16(0)
+      .u16(0)
+      .u16(needsZip64 ? MAX_16 : entries.length)
+      .u16(needsZip64 ? MAX_16 : entries.length)
+      .u32(needsZip64 ? MAX_32 : directorySize)
+      .u32(needsZip64 ? MAX_32 : directoryOffset)
+      .u16(0)
+      .bytes);
+
+    const parts = headers.concat(tail);
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+      result.set(part, position);
+      position += part.length;
+    }
+    return result;
+  }
+}
\ No newline at end of file